@@ -0,0 +1,143 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages } from '@salesforce/core';
+import { DataBundleObject, FieldValue, MigrationPlan, SeederDataExportResult } from '../../../types/index.js';
+import { BUNDLE_FORMATS, stripAttributes, writeBundle, writeBundleRecords } from '../../../utils/bundle.js';
+import { checkMaskSalt, maskRecord, MigrationRunner, PreparedObject } from '../../../utils/migration.js';
+import { readMigrationPlan } from '../../../utils/plan.js';
+import { checkPlanFileSchema } from '../../../utils/schema.js';
+import { orgSource, queryPages } from '../../../utils/source.js';
+import { collectVariables, resolveVariables } from '../../../utils/variables.js';
+import { validateMigrationPlan } from '../../../utils/validator.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.data.export');
+
+export default class SeederDataExport extends SfCommand<SeederDataExportResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'source-org': Flags.requiredOrg({
+      summary: messages.getMessage('flags.source-org.summary'),
+      char: 's',
+    }),
+    plan: Flags.file({
+      summary: messages.getMessage('flags.plan.summary'),
+      char: 'p',
+      required: true,
+      exists: true,
+    }),
+    var: Flags.string({
+      summary: messages.getMessage('flags.var.summary'),
+      multiple: true,
+    }),
+    'vars-file': Flags.file({
+      summary: messages.getMessage('flags.vars-file.summary'),
+      exists: true,
+    }),
+    'output-dir': Flags.directory({
+      summary: messages.getMessage('flags.output-dir.summary'),
+      char: 'd',
+      required: true,
+    }),
+    format: Flags.option({
+      summary: messages.getMessage('flags.format.summary'),
+      options: BUNDLE_FORMATS,
+      default: 'json',
+    })(),
+    'mask-salt': Flags.string({
+      summary: messages.getMessage('flags.mask-salt.summary'),
+      env: 'SF_SEEDER_MASK_SALT',
+    }),
+  };
+
+  public async run(): Promise<SeederDataExportResult> {
+    const { flags } = await this.parse(SeederDataExport);
+    const sourceOrg = flags['source-org'];
+    const conn = sourceOrg.getConnection();
+    const userInfo = await conn.identity();
+    this.log(chalk.green(`Connected to source org: ${userInfo.username}`));
+
+    let plan: MigrationPlan;
+    let variables: Record<string, FieldValue>;
+    try {
+      plan = readMigrationPlan(path.resolve(flags.plan), checkPlanFileSchema('migration', this.warn.bind(this)));
+      variables = collectVariables(plan.variables, flags['vars-file'], flags.var);
+    } catch (err) {
+      this.error((err as Error).message);
+    }
+
+    const resolved = resolveVariables('Object', plan.objects, variables, this.warn.bind(this));
+    if (!resolved.valid) {
+      this.error('❌ Migration plan uses undefined variables. Define them in "variables", --vars-file or --var.');
+    }
+    plan = { ...plan, objects: resolved.entries };
+    if (!validateMigrationPlan(plan, this.warn.bind(this))) {
+      this.error('❌ Migration plan is invalid. Fix the issues above and run the export again.');
+    }
+    try {
+      checkMaskSalt(plan, flags['mask-salt']);
+    } catch (err) {
+      this.error((err as Error).message);
+    }
+
+    const dir = path.resolve(flags['output-dir']);
+    const maskSalt = flags['mask-salt'] ?? '';
+    const runner = new MigrationRunner(
+      orgSource(conn),
+      { log: this.log.bind(this), warn: this.warn.bind(this) },
+      { dmlOptions: { api: 'rest' }, maskSalt }
+    );
+
+    let preparedObjects: PreparedObject[];
+    try {
+      preparedObjects = await runner.prepareObjects(plan.objects, plan.maskProfile);
+    } catch (err) {
+      this.error((err as Error).message);
+    }
+
+    const objects: DataBundleObject[] = [];
+    for (const [index, prepared] of preparedObjects.entries()) {
+      const { obj } = prepared;
+      // Records are masked before they are written, so the bundle never holds the source values
+      const records: Array<Record<string, FieldValue>> = [];
+      // eslint-disable-next-line no-await-in-loop
+      for await (const page of queryPages(conn, prepared.cleanedQuery)) {
+        records.push(
+          ...page.records.map((record) => maskRecord(stripAttributes(record), prepared.maskRules, maskSalt))
+        );
+        this.log(`📦 Retrieved ${records.length}/${page.totalSize} records from ${obj.sobject}`);
+      }
+
+      const file = `records/${index + 1}-${obj.sobject}.${flags.format}`;
+      writeBundleRecords(dir, file, records, flags.format);
+      objects.push({ sobject: obj.sobject, query: prepared.cleanedQuery, file, records: records.length });
+    }
+
+    writeBundle(
+      dir,
+      {
+        sourceOrg: sourceOrg.getOrgId(),
+        createdAt: new Date().toISOString(),
+        format: flags.format,
+        // Masks were applied on export, so importing the bundle must not mask the records again
+        plan: { objects: plan.objects.map((obj) => ({ ...obj, mask: undefined })) },
+        objects,
+      },
+      runner.describes
+    );
+
+    this.log(chalk.green(`✅ Exported ${objects.length} object(s) to ${dir}`));
+    return { bundle: dir, objects };
+  }
+}
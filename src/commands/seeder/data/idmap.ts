@@ -0,0 +1,103 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages } from '@salesforce/core';
+import { IdMapStore, SeederDataIdMapResult } from '../../../types/index.js';
+import { defaultIdMapPath, exportIdMap, readIdMapStore, writeIdMapStore } from '../../../utils/idmap.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.data.idmap');
+
+export default class SeederDataIdMap extends SfCommand<SeederDataIdMapResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'source-org': Flags.requiredOrg({
+      summary: messages.getMessage('flags.source-org.summary'),
+      char: 's',
+    }),
+    'target-org': Flags.requiredOrg({
+      summary: messages.getMessage('flags.target-org.summary'),
+      char: 't',
+    }),
+    'id-map': Flags.string({
+      summary: messages.getMessage('flags.id-map.summary'),
+    }),
+    sobject: Flags.string({
+      summary: messages.getMessage('flags.sobject.summary'),
+      multiple: true,
+    }),
+    output: Flags.string({
+      summary: messages.getMessage('flags.output.summary'),
+      exclusive: ['clear'],
+    }),
+    clear: Flags.boolean({
+      summary: messages.getMessage('flags.clear.summary'),
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<SeederDataIdMapResult> {
+    const { flags } = await this.parse(SeederDataIdMap);
+    const sourceOrg = flags['source-org'].getOrgId();
+    const targetOrg = flags['target-org'].getOrgId();
+    const storePath = flags['id-map'] ? path.resolve(flags['id-map']) : defaultIdMapPath(sourceOrg, targetOrg);
+
+    let store: IdMapStore;
+    try {
+      store = readIdMapStore(storePath, sourceOrg, targetOrg);
+    } catch (err) {
+      this.error((err as Error).message);
+    }
+
+    const recorded = fs.existsSync(storePath);
+    const sobjects = flags.sobject ?? Object.keys(store.idMap);
+    const idMap = Object.fromEntries(sobjects.map((sobject) => [sobject, store.idMap[sobject] ?? {}]));
+
+    const result: SeederDataIdMapResult = {
+      idMap: storePath,
+      sourceOrg,
+      targetOrg,
+      ...(recorded ? { updatedAt: store.updatedAt } : {}),
+      objects: Object.entries(idMap).map(([sobject, ids]) => ({ sobject, mapped: Object.keys(ids).length })),
+      cleared: false,
+    };
+
+    if (!recorded) {
+      this.log(`No ID mappings recorded yet for ${sourceOrg} to ${targetOrg}.`);
+      return result;
+    }
+
+    if (flags.clear) {
+      // Clearing some objects keeps the rest of the store for later migrations
+      const kept = Object.fromEntries(Object.entries(store.idMap).filter(([sobject]) => !sobjects.includes(sobject)));
+      if (Object.keys(kept).length) writeIdMapStore(storePath, { ...store, idMap: kept });
+      else fs.rmSync(storePath);
+
+      this.log(chalk.green(`✅ Cleared the ID mappings of ${sobjects.join(', ') || 'no objects'}.`));
+      return { ...result, cleared: true };
+    }
+
+    this.log(`ID mappings from ${sourceOrg} to ${targetOrg}, updated ${store.updatedAt}:`);
+    result.objects.forEach(({ sobject, mapped }) => this.log(`• ${sobject}: ${mapped} record(s)`));
+
+    if (flags.output) {
+      const output = path.resolve(flags.output);
+      exportIdMap(output, idMap);
+      this.log(chalk.green(`✅ ID mappings exported to ${output}`));
+      return { ...result, output };
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,100 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages } from '@salesforce/core';
+import { DataBundle, IdMapStore, SeederDataImportResult, SeederDataMigrateObjectResult } from '../../../types/index.js';
+import { bundleSource, readBundle } from '../../../utils/bundle.js';
+import { checkDmlOptions, dmlOptionsFromFlags, MIGRATION_DML_FLAGS } from '../../../utils/dml.js';
+import { defaultIdMapPath, readIdMapStore } from '../../../utils/idmap.js';
+import { MigrationRunner } from '../../../utils/migration.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.data.import');
+
+export default class SeederDataImport extends SfCommand<SeederDataImportResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'target-org': Flags.requiredOrg({
+      summary: messages.getMessage('flags.target-org.summary'),
+      char: 't',
+    }),
+    bundle: Flags.directory({
+      summary: messages.getMessage('flags.bundle.summary'),
+      char: 'b',
+      required: true,
+      exists: true,
+    }),
+    failures: Flags.string({
+      summary: messages.getMessage('flags.failures.summary'),
+    }),
+    'id-map': Flags.string({
+      summary: messages.getMessage('flags.id-map.summary'),
+    }),
+    ...MIGRATION_DML_FLAGS,
+  };
+
+  public async run(): Promise<SeederDataImportResult> {
+    const { flags } = await this.parse(SeederDataImport);
+    const targetOrg = flags['target-org'];
+    const targetConn = targetOrg.getConnection();
+    const targetUserInfo = await targetConn.identity();
+    this.log(chalk.green(`Connected to target org: ${targetUserInfo.username}`));
+
+    const dmlOptions = dmlOptionsFromFlags(flags);
+
+    const dir = path.resolve(flags.bundle);
+    let bundle: DataBundle;
+    let idMapPath: string;
+    let idMapStore: IdMapStore;
+    try {
+      checkDmlOptions(dmlOptions);
+      bundle = readBundle(dir);
+      // Mappings are kept per exported org, so every import of its bundles into an org shares them
+      idMapPath = flags['id-map']
+        ? path.resolve(flags['id-map'])
+        : defaultIdMapPath(bundle.sourceOrg, targetOrg.getOrgId());
+      idMapStore = readIdMapStore(idMapPath, bundle.sourceOrg, targetOrg.getOrgId());
+    } catch (err) {
+      this.error((err as Error).message);
+    }
+
+    this.log(
+      `📂 Importing ${bundle.objects.length} object(s) exported from ${bundle.sourceOrg} on ${bundle.createdAt}`
+    );
+
+    const createdAt = new Date().toISOString();
+    const runner = new MigrationRunner(
+      bundleSource(dir, bundle),
+      { log: this.log.bind(this), warn: this.warn.bind(this) },
+      { dmlOptions, maskSalt: '' }
+    );
+    const report = {
+      createdAt,
+      org: targetUserInfo.username,
+      sourceOrg: bundle.sourceOrg,
+      idMapStore: { path: idMapPath, store: idMapStore },
+      path: flags.failures,
+    };
+    let result: { objects: SeederDataMigrateObjectResult[]; failures?: string };
+    try {
+      result = await runner.runAndReportFailures(targetConn, bundle.plan, report);
+    } catch (err) {
+      this.error((err as Error).message);
+    }
+
+    this.log(`🗺️  ID mappings saved to ${idMapPath}`);
+    this.log(chalk.green('✅ Data import completed!'));
+
+    return { bundle: dir, dryRun: false, ...result, idMap: idMapPath };
+  }
+}
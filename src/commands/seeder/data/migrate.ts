@@ -5,18 +5,33 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 
-import * as fs from 'node:fs';
 import * as path from 'node:path';
 import chalk from 'chalk';
-import { DescribeSObjectResult } from '@jsforce/jsforce-node';
 import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
-import { Messages, Connection } from '@salesforce/core';
-import { MigrationPlan, FieldValue } from '../../../types/index.js';
+import { Connection, Messages } from '@salesforce/core';
+import {
+    MigrationPlan,
+    MigrationPreviewObject,
+    FieldValue,
+    IdMapStore,
+    SeederDataMigrateObjectResult,
+    SeederDataMigrateResult,
+} from '../../../types/index.js';
+import { readMigrationPlan } from '../../../utils/plan.js';
+import { createRunId } from '../../../utils/manifest.js';
+import { checkDmlOptions, dmlOptionsFromFlags, MIGRATION_DML_FLAGS } from '../../../utils/dml.js';
+import { defaultIdMapPath, readIdMapStore } from '../../../utils/idmap.js';
+import { checkMaskSalt, MigrationRunner } from '../../../utils/migration.js';
+import { countPreviewActions, defaultPreviewPath, writePreviewReport } from '../../../utils/preview.js';
+import { checkPlanFileSchema } from '../../../utils/schema.js';
+import { orgSource } from '../../../utils/source.js';
+import { collectVariables, resolveVariables } from '../../../utils/variables.js';
+import { validateMigrationPlan } from '../../../utils/validator.js';
 
 Messages.importMessagesDirectoryFromMetaUrl(import.meta.url)
 const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.data.migrate');
 
-export default class SeederDataMigrate extends SfCommand<void> {
+export default class SeederDataMigrate extends SfCommand<SeederDataMigrateResult> {
 
     public static readonly summary = messages.getMessage('summary');
     public static readonly description = messages.getMessage('description');
@@ -37,11 +52,41 @@ export default class SeederDataMigrate extends SfCommand<void> {
             required: true,
             exists: true,
         }),
+        var: Flags.string({
+            summary: messages.getMessage('flags.var.summary'),
+            description: messages.getMessage('flags.var.description'),
+            multiple: true,
+        }),
+        'vars-file': Flags.file({
+            summary: messages.getMessage('flags.vars-file.summary'),
+            exists: true,
+        }),
+        dryrun: Flags.boolean({
+            summary: messages.getMessage('flags.dryrun.summary'),
+            description: messages.getMessage('flags.dryrun.description'),
+            default: false,
+        }),
+        save: Flags.string({
+            summary: messages.getMessage('flags.save.summary'),
+            description: messages.getMessage('flags.save.description'),
+        }),
+        failures: Flags.string({
+            summary: messages.getMessage('flags.failures.summary'),
+            description: messages.getMessage('flags.failures.description'),
+        }),
+        'id-map': Flags.string({
+            summary: messages.getMessage('flags.id-map.summary'),
+            description: messages.getMessage('flags.id-map.description'),
+        }),
+        'mask-salt': Flags.string({
+            summary: messages.getMessage('flags.mask-salt.summary'),
+            description: messages.getMessage('flags.mask-salt.description'),
+            env: 'SF_SEEDER_MASK_SALT',
+        }),
+        ...MIGRATION_DML_FLAGS,
     };
 
-    private describeCache: Record<string, DescribeSObjectResult> = {};
-
-    public async run(): Promise<void> {
+    public async run(): Promise<SeederDataMigrateResult> {
         const { flags } = await this.parse(SeederDataMigrate);
 
         const targetOrg = flags['target-org'];
@@ -57,192 +102,106 @@ export default class SeederDataMigrate extends SfCommand<void> {
         this.log(chalk.green(`Connected to source org: ${sourceUserInfo.username}`));
         this.log(chalk.green(`Connected to target org: ${targetUserInfo.username}`));
 
-        const planPath = path.resolve(plans);
-        const fileContent = fs.readFileSync(planPath, 'utf-8');
-        const planList: MigrationPlan = JSON.parse(fileContent) as MigrationPlan;
-
-        await this.runMigrationPlan(sourceConn, targetConn, planList);
-
-        this.log('✅ Data migration completed!');
-    }
-
-    private async runMigrationPlan(sourceConn: Connection, targetConn: Connection, plan: MigrationPlan): Promise<void> {
-        const idMapBySObject: Record<string, Map<string, string>> = {};
-
-        for (const obj of plan.objects) {
-            try {
-                this.log(`🔍 Validating query for ${obj.sobject}`);
-
-                if (!obj.query) throw new Error('Query must be defined in the plan.');
-
-                // eslint-disable-next-line no-await-in-loop
-                const { cleanedQuery, keptFields } = await this.sanitizeSOQLQuery(sourceConn, obj.query);
-                // eslint-disable-next-line no-await-in-loop
-                const referenceFieldMap = await this.getReferenceFieldMap(sourceConn, obj.sobject, keptFields);
-
-                // eslint-disable-next-line no-await-in-loop
-                const records = await sourceConn.query(cleanedQuery);
-                this.log(`📦 Retrieved ${records.totalSize} records from ${obj.sobject}`);
-
-                const sourceToInsert: Array<Record<string, FieldValue>> = [];
-                const idMap = new Map<string, string>();
-
-                for (const record of records.records) {
-                    const originalId = record['Id'] as string;
-                    const clone = { ...record };
-                    delete clone.Id; delete clone.attributes;
-
-                    // eslint-disable-next-line no-await-in-loop
-                    await this.resolveReferencesWithFieldMap(sourceConn, clone, referenceFieldMap, idMapBySObject);
-
-                    sourceToInsert.push(clone);
-                    idMap.set(originalId, ''); // temp placeholder
-                }
-
-                this.log(`🚚 Inserting ${sourceToInsert.length} ${obj.sobject} into target org...`);
-
-                let insertResults;
-                if (obj.operation && obj.operation === 'Upsert' && obj.externalId) {
-                    // eslint-disable-next-line no-await-in-loop
-                    insertResults = await targetConn.upsert(obj.sobject, sourceToInsert, obj.externalId);
-                } else {
-                    // eslint-disable-next-line no-await-in-loop
-                    insertResults = await targetConn.insert(obj.sobject, sourceToInsert);
-                }
-
-                insertResults.forEach((result, index) => {
-                    const oldId = Array.from(idMap.keys())[index];
-                    if (result.success) {
-                        idMap.set(oldId, result.id);
-                    } else {
-                        this.log(`[!] Failed to insert ${obj.sobject} record (${oldId}): ${result.errors?.join(', ')}`);
-                    }
-                });
-
-                idMapBySObject[obj.sobject] = idMap;
-                const successCount = insertResults.filter(r => r.success).length;
-
-                this.log(`✅ Inserted ${successCount}/${sourceToInsert.length} records into ${obj.sobject}`);
-            } catch (error) {
-                const message = error instanceof Error ? error.message : 'Unknown error';
-                this.error(`❌ Error with ${obj.sobject}: ${message}`);
-            }
+        const dmlOptions = dmlOptionsFromFlags(flags);
+
+        const sourceOrgId = sourceOrg.getOrgId();
+        const targetOrgId = targetOrg.getOrgId();
+        const idMapPath = flags['id-map'] ? path.resolve(flags['id-map']) : defaultIdMapPath(sourceOrgId, targetOrgId);
+
+        let planList: MigrationPlan;
+        let variables: Record<string, FieldValue>;
+        let idMapStore: IdMapStore;
+        try {
+            checkDmlOptions(dmlOptions);
+            planList = readMigrationPlan(path.resolve(plans), checkPlanFileSchema('migration', this.warn.bind(this)));
+            variables = collectVariables(planList.variables, flags['vars-file'], flags['var']);
+            idMapStore = readIdMapStore(idMapPath, sourceOrgId, targetOrgId);
+        } catch (err) {
+            this.error((err as Error).message);
         }
-    }
 
-
-    private async sanitizeSOQLQuery(
-        conn: Connection,
-        soql: string
-    ): Promise<{ cleanedQuery: string; keptFields: string[] }> {
-        const match = soql.match(/SELECT\s+(.+?)\s+FROM\s+(\w+)/i);
-        if (!match) throw new Error(`Invalid SOQL: ${soql}`);
-
-        const fieldListRaw = match[1];
-        const sobject = match[2];
-
-        const fields = fieldListRaw.split(',').map(f => f.trim());
-        if (!this.describeCache[sobject]) {
-            this.describeCache[sobject] = await conn.sobject(sobject).describe();
+        const resolved = resolveVariables('Object', planList.objects, variables, this.warn.bind(this));
+        if (!resolved.valid) {
+            this.error('❌ Migration plan uses undefined variables. Define them in "variables", --vars-file or --var.');
         }
-        const describe = this.describeCache[sobject];
-
-        const editableFields = new Set(
-            describe.fields
-                .filter(f => f.updateable && !f.calculated)
-                .map(f => f.name)
-        );
-
-        const kept: string[] = [];
-        const skipped: string[] = [];
-
-        for (const field of fields) {
-            if (editableFields.has(field)) {
-                kept.push(field);
-            } else {
-                const info = describe.fields.find(f => f.name === field);
-                const reason = info ? info?.calculated
-                    ? 'Formula field'
-                    : info?.custom
-                        ? 'Custom non-editable'
-                        : 'Standard non-editable'
-                    : 'Invalid Field';
-                this.log(`[!] Skipped field "${field}" on "${sobject}" - ${reason}`);
-                skipped.push(field);
-            }
+        planList = { ...planList, objects: resolved.entries };
+        if (!validateMigrationPlan(planList, this.warn.bind(this))) {
+            this.error('❌ Migration plan is invalid. Fix the issues above and run the migration again.');
         }
-
-        const cleanedQuery = `SELECT ${kept.join(', ')} FROM ${sobject}`;
-        return { cleanedQuery, keptFields: kept };
-    }
-
-    private async getReferenceFieldMap(
-        conn: Connection,
-        sobject: string,
-        keptFields: string[]
-    ): Promise<Record<string, string[]>> {
-        if (!this.describeCache[sobject]) {
-            this.describeCache[sobject] = await conn.sobject(sobject).describe();
+        try {
+            checkMaskSalt(planList, flags['mask-salt']);
+        } catch (err) {
+            this.error((err as Error).message);
         }
 
-        const fieldMap: Record<string, string[]> = {};
-        const referenceObj: Set<string> = new Set<string>();
+        const createdAt = new Date().toISOString();
+        const runner = new MigrationRunner(
+            orgSource(sourceConn),
+            { log: this.log.bind(this), warn: this.warn.bind(this) },
+            { dmlOptions, maskSalt: flags['mask-salt'] ?? '' }
+        );
 
-        for (const fieldName of keptFields) {
-            const fieldMeta = this.describeCache[sobject].fields.find(f => f.name === fieldName);
-            if (fieldMeta && fieldMeta.type === 'reference' && fieldMeta.referenceTo) {
-                fieldMap[fieldName] = fieldMeta.referenceTo;
-                fieldMeta.referenceTo?.forEach(item => referenceObj.add(item));
-            }
+        if (flags['dryrun']) {
+            return this.preview(runner, targetConn, planList, { path: idMapPath, store: idMapStore }, {
+                createdAt,
+                org: targetUserInfo.username,
+                save: flags['save'],
+            });
         }
 
-        for (const obj of referenceObj) {
-            if (!this.describeCache[obj]) {
-                // eslint-disable-next-line no-await-in-loop
-                this.describeCache[obj] = await conn.sobject(obj).describe();
-            }
+        const report = {
+            createdAt,
+            org: targetUserInfo.username,
+            sourceOrg: sourceOrgId,
+            idMapStore: { path: idMapPath, store: idMapStore },
+            path: flags['failures'],
+        };
+        let result: { objects: SeederDataMigrateObjectResult[]; failures?: string };
+        try {
+            result = await runner.runAndReportFailures(targetConn, planList, report);
+        } catch (err) {
+            this.error((err as Error).message);
         }
 
-        return fieldMap;
+        this.log(`🗺️  ID mappings saved to ${idMapPath}`);
+        this.log('✅ Data migration completed!');
+
+        return { dryRun: false, ...result, idMap: idMapPath };
     }
 
-    private async resolveReferencesWithFieldMap(
-        conn: Connection,
-        record: Record<string, FieldValue>,
-        referenceFieldMap: Record<string, string[]>,
-        idMapBySObject: Record<string, Map<string, string>>
-    ): Promise<void> {
-        for (const [fieldName, value] of Object.entries(record)) {
-            if (!value || typeof value !== 'string' || !value.startsWith('0')) continue;
-
-            const possibleObjects = referenceFieldMap[fieldName];
-            if (!possibleObjects) continue;
-
-            let referencedObject: string | undefined;
-
-            if (possibleObjects.length === 1) {
-                referencedObject = possibleObjects[0];
-            } else {
-                const idPrefix = value.substring(0, 3);
-                for (const obj of possibleObjects) {
-                    if (!this.describeCache[obj]) {
-                        // eslint-disable-next-line no-await-in-loop
-                        this.describeCache[obj] = await conn.sobject(obj).describe();
-                    }
-                    if (this.describeCache[obj].keyPrefix === idPrefix) {
-                        referencedObject = obj;
-                        break;
-                    }
-                }
-            }
-
-            if (referencedObject && idMapBySObject[referencedObject]) {
-                const mappedId = idMapBySObject[referencedObject].get(value);
-                if (mappedId) {
-                    record[fieldName] = mappedId;
-                }
-            }
+    // Reports what the migration would change in the target org, without writing to it
+    private async preview(
+        runner: MigrationRunner,
+        targetConn: Connection,
+        plan: MigrationPlan,
+        idMapStore: { path: string; store: IdMapStore },
+        report: { createdAt: string; org: string; save?: string }
+    ): Promise<SeederDataMigrateResult> {
+        this.log('⚙️  Dry run mode enabled. No records will be written.');
+
+        let previews: MigrationPreviewObject[];
+        try {
+            previews = await runner.preview(targetConn, plan, idMapStore);
+        } catch (err) {
+            this.error((err as Error).message);
         }
-    }
 
-}
\ No newline at end of file
+        const runId = createRunId(report.createdAt);
+        const previewPath = report.save ? path.resolve(report.save) : defaultPreviewPath(runId);
+        writePreviewReport(previewPath, { runId, org: report.org, createdAt: report.createdAt, objects: previews });
+        this.log(chalk.green(`💾 Preview saved to ${previewPath}`));
+
+        const objects = previews.map(({ sobject, operation, records }) => ({
+            sobject,
+            operation,
+            retrieved: records.length,
+            succeeded: 0,
+            failed: 0,
+            idMap: {},
+            failures: [],
+            preview: countPreviewActions(records),
+        }));
+
+        return { dryRun: true, preview: previewPath, idMap: idMapStore.path, objects };
+    }
+}
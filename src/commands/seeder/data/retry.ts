@@ -0,0 +1,204 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages, Connection } from '@salesforce/core';
+import {
+  FieldValue,
+  IdMapStore,
+  MigrationFailure,
+  MigrationFailureReport,
+  SeederDataRetryResult,
+} from '../../../types/index.js';
+import {
+  formatFailureErrors,
+  parseSaveErrors,
+  readFailureReport,
+  writeFailureReport,
+} from '../../../utils/failures.js';
+import { DmlResult, executeDml, MIGRATION_DML_OPERATIONS } from '../../../utils/dml.js';
+import { readIdMapStore, writeIdMapStore } from '../../../utils/idmap.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.data.retry');
+
+// Lookups are mapped with the ID map of the original migration, including records retried so far
+function resolvePayload(failure: MigrationFailure, idMap: MigrationFailureReport['idMap']): Record<string, FieldValue> {
+  const payload = { ...failure.payload };
+
+  for (const [field, sourceId] of Object.entries(failure.lookups)) {
+    const mapped = Object.values(idMap)
+      .map((ids) => ids[sourceId])
+      .find(Boolean);
+    if (mapped) payload[field] = mapped;
+  }
+
+  // Records that matched no target record may have been migrated since
+  const targetId = idMap[failure.sobject]?.[failure.sourceId];
+  if ((failure.operation === 'Update' || failure.operation === 'Delete') && !payload.Id && targetId) {
+    payload.Id = targetId;
+  }
+
+  return failure.operation === 'Delete' ? { Id: payload.Id } : payload;
+}
+
+// Maps the records a retry wrote, or drops the ones it deleted
+function mergeWritten(
+  ids: Record<string, string> | undefined,
+  deleted: boolean,
+  written: Record<string, string>
+): Record<string, string> {
+  return deleted
+    ? Object.fromEntries(Object.entries(ids ?? {}).filter(([sourceId]) => !written[sourceId]))
+    : { ...ids, ...written };
+}
+
+export default class SeederDataRetry extends SfCommand<SeederDataRetryResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'target-org': Flags.requiredOrg({
+      summary: messages.getMessage('flags.target-org.summary'),
+      char: 't',
+    }),
+    failures: Flags.file({
+      char: 'f',
+      summary: messages.getMessage('flags.failures.summary'),
+      required: true,
+      exists: true,
+    }),
+  };
+
+  public async run(): Promise<SeederDataRetryResult> {
+    const { flags } = await this.parse(SeederDataRetry);
+    const conn = flags['target-org'].getConnection();
+    const userInfo = await conn.identity();
+
+    this.log(chalk.green(`Connected to target org: ${userInfo.username}`));
+
+    const reportPath = path.resolve(flags.failures);
+    let report: MigrationFailureReport;
+    try {
+      report = readFailureReport(reportPath, 'migration');
+    } catch (err) {
+      this.error((err as Error).message);
+    }
+
+    if (report.org !== userInfo.username) {
+      this.error(`Failure report ${report.runId} was recorded against ${report.org}, not ${userInfo.username}.`);
+    }
+
+    const result: SeederDataRetryResult = {
+      runId: report.runId,
+      failures: reportPath,
+      retried: report.failures.length,
+      succeeded: 0,
+      failed: 0,
+      idMap: {},
+    };
+    if (!report.failures.length) {
+      this.log('No failed records to retry.');
+      return result;
+    }
+
+    // The ID map store of the migration is updated too, so later migrations map to retried records
+    let idMapStore: { path: string; store: IdMapStore } | undefined;
+    if (report.idMapStore && report.sourceOrg) {
+      try {
+        idMapStore = {
+          path: report.idMapStore,
+          store: readIdMapStore(report.idMapStore, report.sourceOrg, flags['target-org'].getOrgId()),
+        };
+      } catch (err) {
+        this.error((err as Error).message);
+      }
+    }
+
+    const remaining: MigrationFailure[] = [];
+
+    // Objects are retried in plan order, so retried parents are mapped before their children
+    const stepNumbers = [...new Set(report.failures.map((f) => f.step))].sort((a, b) => a - b);
+    for (const stepNumber of stepNumbers) {
+      const group = report.failures.filter((f) => f.step === stepNumber);
+      // eslint-disable-next-line no-await-in-loop
+      const written = await this.retryObject(conn, group, report.idMap, remaining);
+
+      const { sobject, operation: groupOperation } = group[0];
+      const deleted = groupOperation === 'Delete';
+      report.idMap[sobject] = mergeWritten(report.idMap[sobject], deleted, written);
+      if (idMapStore) idMapStore.store.idMap[sobject] = mergeWritten(idMapStore.store.idMap[sobject], deleted, written);
+      Object.assign(result.idMap, written);
+    }
+
+    if (idMapStore) {
+      writeIdMapStore(idMapStore.path, idMapStore.store);
+      this.log(`🗺️  ID mappings saved to ${idMapStore.path}`);
+    }
+
+    // Keep only what still fails so the retry can be run again after the next fix.
+    report.failures = remaining;
+    writeFailureReport(reportPath, report);
+
+    result.succeeded = Object.keys(result.idMap).length;
+    result.failed = remaining.length;
+
+    if (remaining.length) {
+      this.error(`❌ ${remaining.length} record(s) still failing. They remain listed in ${reportPath}.`);
+    }
+
+    this.log(chalk.green(`✅ Retried ${result.retried} failed record(s) of migration ${report.runId}.`));
+
+    return result;
+  }
+
+  private async retryObject(
+    conn: Connection,
+    group: MigrationFailure[],
+    idMap: MigrationFailureReport['idMap'],
+    remaining: MigrationFailure[]
+  ): Promise<Record<string, string>> {
+    const { sobject, externalId } = group[0];
+    const payloads = group.map((failure) => resolvePayload(failure, idMap));
+
+    this.log(`🚚 Retrying ${group.length} ${sobject} record(s) with ${group[0].operation}...`);
+
+    const dmlOperation = MIGRATION_DML_OPERATIONS[group[0].operation];
+    let results: DmlResult[];
+    try {
+      results = await executeDml(conn, sobject, dmlOperation, payloads, {
+        api: 'rest',
+        ...(dmlOperation === 'upsert' ? { externalId } : {}),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.warn(`Failed writing ${sobject}: ${message}`);
+      remaining.push(...group.map((failure, index) => ({ ...failure, payload: payloads[index] })));
+      return {};
+    }
+
+    const written: Record<string, string> = {};
+    results.forEach((result, index) => {
+      const failure = group[index];
+      const targetId = result.id ?? (payloads[index].Id as string | undefined);
+      if (result.success && targetId) {
+        written[failure.sourceId] = targetId;
+        return;
+      }
+
+      const errors = parseSaveErrors(result.errors);
+      this.log(`[!] Failed to write ${sobject} record (${failure.sourceId}): ${formatFailureErrors(errors)}`);
+      remaining.push({ ...failure, payload: payloads[index], errors });
+    });
+
+    this.log(`✅ Wrote ${Object.keys(written).length}/${group.length} records into ${sobject}`);
+    return written;
+  }
+}
@@ -5,20 +5,24 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 
-import * as fs from 'node:fs';
 import * as path from 'node:path';
 import chalk from 'chalk';
 import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
-import { Messages } from '@salesforce/core';
+import { Connection, Messages } from '@salesforce/core';
 import { Field } from 'jsforce';
+import { DescribeSObjectResult } from '@jsforce/jsforce-node';
 import inquirer from 'inquirer';
 import { getFakerForField } from '../../../utils/faker.js';
-import { FieldValue, SeedingStep } from '../../../types/index.js';
+import { getReferenceKey, isReference, parseReference } from '../../../utils/reference.js';
+import { fetchRecordTypePicklistOptions, getPicklistOptions, PicklistOption } from '../../../utils/picklist.js';
+import { queryRecordTypes, RecordTypeInfo } from '../../../utils/recordType.js';
+import { writePlanFile } from '../../../utils/plan.js';
+import { FieldValue, SeederPlanGenerateResult, SeedingStep } from '../../../types/index.js';
 
 Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
 const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.plan.generate');
 
-export default class SeederPlanGenerate extends SfCommand<void> {
+export default class SeederPlanGenerate extends SfCommand<SeederPlanGenerateResult> {
     public static readonly summary = messages.getMessage('summary');
     public static readonly description = messages.getMessage('description');
     public static readonly examples = messages.getMessages('examples');
@@ -39,9 +43,14 @@ export default class SeederPlanGenerate extends SfCommand<void> {
             summary: messages.getMessage('flags.output.summary'),
             default: 'seeding-plan.json',
         }),
+        'record-type': Flags.string({
+            summary: messages.getMessage('flags.record-type.summary'),
+            description: messages.getMessage('flags.record-type.description'),
+            multiple: true,
+        }),
     };
 
-    public async run(): Promise<void> {
+    public async run(): Promise<SeederPlanGenerateResult> {
         const { flags } = await this.parse(SeederPlanGenerate);
 
         const targetOrg = flags['target-org'];
@@ -54,29 +63,44 @@ export default class SeederPlanGenerate extends SfCommand<void> {
 
         this.log(chalk.green(`Connected to org: ${userInfo.username}`));
 
-        const sobjectNames = objects.split(',').map((name) => name.trim());
-        const plan: SeedingStep[] = [];
+        // Entries are "SObject" or "SObject:Alias", so one SObject can be generated more than once
+        const entries = objects.split(',').map((entry) => {
+            const [sobject, ref] = entry.split(':').map((part) => part.trim());
+            return { sobject, ref: ref || undefined };
+        });
 
-        for (const [, sobject] of sobjectNames.entries()) {
-            this.log(chalk.cyan(`🔍 Describing ${sobject}...`));
-            // eslint-disable-next-line no-await-in-loop
-            const metadata = await conn.describe(sobject);
+        const referenceKeys = new Map<string, string[]>(); // SOBJECT -> [REFERENCE KEY]
+        for (const entry of entries) {
+            referenceKeys.set(entry.sobject, [...(referenceKeys.get(entry.sobject) ?? []), entry.ref ?? entry.sobject]);
+        }
 
-            const fields: Record<string, FieldValue> = {};
+        const recordTypeChoices = new Map<string, string>(); // REFERENCE KEY -> RECORD TYPE DEVELOPER NAME
+        for (const entry of flags['record-type'] ?? []) {
+            const [key, developerName] = entry.split(':').map((part) => part.trim());
+            if (!key || !developerName) this.error(`Invalid --record-type "${entry}". Expected SObject:DeveloperName.`);
+            recordTypeChoices.set(key, developerName);
+        }
 
-            for (const field of metadata.fields) {
-                if (field.deprecatedAndHidden || field.calculated || field.autoNumber) continue;
-                if (!field.updateable || field.nillable === false) continue;
+        const plan: SeedingStep[] = [];
+        const describeCache = new Map<string, DescribeSObjectResult>();
 
+        for (const { sobject, ref } of entries) {
+            let metadata = describeCache.get(sobject);
+            if (!metadata) {
+                this.log(chalk.cyan(`🔍 Describing ${sobject}...`));
                 // eslint-disable-next-line no-await-in-loop
-                const fakerExpr = await getFakerForField(sobject, field as unknown as Field, sobjectNames);
-                if (fakerExpr) {
-                    fields[field.name] = fakerExpr;
-                }
+                metadata = await conn.describe(sobject);
+                describeCache.set(sobject, metadata);
             }
 
+            // eslint-disable-next-line no-await-in-loop
+            const recordType = await this.chooseRecordType(conn, sobject, ref ?? sobject, recordTypeChoices);
+            // eslint-disable-next-line no-await-in-loop
+            const fields = await this.buildFields(conn, sobject, metadata, referenceKeys, recordType);
+
             plan.push({
                 sobject,
+                ...(ref ? { ref } : {}),
                 count,
                 saveRefs: false,
                 fields,
@@ -86,8 +110,124 @@ export default class SeederPlanGenerate extends SfCommand<void> {
         const sortedPlan = await this.getSmartOrderedPlan(plan);
 
         const outputPath = path.resolve(output);
-        fs.writeFileSync(outputPath, JSON.stringify(sortedPlan, null, 2));
+        writePlanFile(outputPath, sortedPlan);
         this.log(chalk.green(`✅ Smart plan generated and saved to ${outputPath}`));
+
+        return { path: outputPath, plan: sortedPlan };
+    }
+
+    private async buildFields(
+        conn: Connection,
+        sobject: string,
+        metadata: DescribeSObjectResult,
+        referenceKeys: Map<string, string[]>,
+        recordType?: RecordTypeInfo
+    ): Promise<Record<string, FieldValue>> {
+        const fields: Record<string, FieldValue> = {};
+        const describedFields = metadata.fields as unknown as Field[];
+
+        // Picklist values available to the chosen record type, from the UI API
+        let recordTypeOptions: Map<string, PicklistOption[]> | undefined;
+        if (recordType) {
+            this.log(chalk.cyan(`🏷️  Using record type ${recordType.developerName} for ${sobject}`));
+            recordTypeOptions = await fetchRecordTypePicklistOptions(conn, sobject, recordType.id);
+        }
+
+        for (const field of describedFields) {
+            if (field.deprecatedAndHidden || field.calculated || field.autoNumber) continue;
+            if (!field.updateable || field.nillable === false) continue;
+
+            let picklistOptions: PicklistOption[] = [];
+            if (field.type === 'picklist') {
+                const controller = describedFields.find((f) => f.name === field.controllerName);
+                picklistOptions = recordTypeOptions?.get(field.name) ?? getPicklistOptions(field, controller);
+            }
+
+            // eslint-disable-next-line no-await-in-loop
+            const fakerExpr = await getFakerForField(sobject, field, referenceKeys, picklistOptions, (f, targets) =>
+                this.chooseReference(sobject, f, targets)
+            );
+            if (fakerExpr) {
+                fields[field.name] = fakerExpr;
+            }
+        }
+
+        // A dependent picklist can only be set together with its controlling field
+        for (const field of describedFields) {
+            if (field.dependentPicklist && field.controllerName && !(field.controllerName in fields)) {
+                delete fields[field.name];
+            }
+        }
+
+        if (recordType) {
+            fields['RecordTypeId'] = `#{recordType.${sobject}.${recordType.developerName}}`;
+        }
+
+        return fields;
+    }
+
+    private async chooseRecordType(
+        conn: Connection,
+        sobject: string,
+        key: string,
+        recordTypeChoices: Map<string, string>
+    ): Promise<RecordTypeInfo | undefined> {
+        const chosen = recordTypeChoices.get(key);
+        const recordTypes = await queryRecordTypes(conn, [sobject]);
+
+        if (chosen) {
+            const match = recordTypes.find((rt) => rt.developerName.toLowerCase() === chosen.toLowerCase());
+            if (!match) this.error(`Record type "${chosen}" not found on ${sobject}.`);
+            return match;
+        }
+
+        if (recordTypes.length < 2) return undefined;
+
+        if (!this.isInteractive()) {
+            this.warn(
+                `${key} has ${recordTypes.length} record types. Using the default record type; choose one with --record-type ${key}:<DeveloperName>.`
+            );
+            return undefined;
+        }
+
+        const result = await inquirer.prompt([
+            {
+                type: 'list',
+                name: 'selectedRecordType',
+                message: `Multiple record types for ${key}. Choose one:`,
+                choices: [
+                    { name: 'None (use the default record type)', value: '' },
+                    ...recordTypes.map((rt) => ({ name: `${rt.name} (${rt.developerName})`, value: rt.developerName })),
+                ],
+            },
+        ]);
+
+        return recordTypes.find((rt) => rt.developerName === result.selectedRecordType);
+    }
+
+    private async chooseReference(sobject: string, field: Field, targets: string[]): Promise<string> {
+        if (!this.isInteractive()) {
+            this.warn(
+                `${sobject}.${field.name} can reference ${targets.join(', ')}. Using ${targets[0]}; edit the plan to use another.`
+            );
+            return targets[0];
+        }
+
+        const result = await inquirer.prompt([
+            {
+                type: 'list',
+                name: 'selectedRef',
+                message: `Multiple reference targets for ${field.name} on ${sobject}. Choose one:`,
+                choices: targets,
+            },
+        ]);
+
+        return result.selectedRef as string;
+    }
+
+    // A prompt would hang --json and CI runs, so they take the default answer with a warning instead
+    private isInteractive(): boolean {
+        return Boolean(process.stdin.isTTY) && !this.jsonEnabled();
     }
 
     private async getSmartOrderedPlan(originalPlan: SeedingStep[]): Promise<SeedingStep[]> {
@@ -97,16 +237,16 @@ export default class SeederPlanGenerate extends SfCommand<void> {
         for (const step of originalPlan) {
             const deps = new Map<string, string>();
             for (const [field, value] of Object.entries(step.fields)) {
-                if (typeof value === 'string' && value.startsWith('@{') && value.endsWith('}')) {
-                    const refObj = value.slice(2, -1).split('.')[0];
+                if (isReference(value)) {
+                    const refObj = parseReference(value)?.key;
                     if (refObj) {
                         deps.set(field, refObj);
                         depSobjectGraph.set(refObj, depSobjectGraph.get(refObj) ?? new Set<string>());
-                        depSobjectGraph.get(refObj)!.add(step.sobject);
+                        depSobjectGraph.get(refObj)!.add(getReferenceKey(step));
                     }
                 }
             }
-            if (deps.size !== 0) sObjectDepGraph.set(step.sobject, deps);
+            if (deps.size !== 0) sObjectDepGraph.set(getReferenceKey(step), deps);
         }
 
         // 🧠 Prompt user to resolve cyclic references (if any)
@@ -117,12 +257,12 @@ export default class SeederPlanGenerate extends SfCommand<void> {
             if (depSobjectGraph.get(to.trim())) depSobjectGraph.get(to.trim())?.delete(from.trim());
             if (depSobjectGraph.get(to.trim())?.size === 0) depSobjectGraph.delete(to.trim());
 
-            const plan = originalPlan.find((item) => item.sobject === from.trim());
+            const plan = originalPlan.find((item) => getReferenceKey(item) === from.trim());
             if (plan?.fields) delete plan.fields[field.trim()];
         }
 
         for (const step of originalPlan) {
-            step.saveRefs = depSobjectGraph.has(step.sobject);
+            step.saveRefs = depSobjectGraph.has(getReferenceKey(step));
         }
 
         const sortedSObjects: string[] = [];
@@ -145,12 +285,13 @@ export default class SeederPlanGenerate extends SfCommand<void> {
             }
         }
 
-        for (const node of sObjectDepGraph.keys()) {
-            visit(node);
+        // Visit every step, not only those with dependencies, so independent steps are kept
+        for (const step of originalPlan) {
+            visit(getReferenceKey(step));
         }
 
         const sortedPlan = sortedSObjects
-            .map((objName) => originalPlan.find((p) => p.sobject === objName))
+            .map((objName) => originalPlan.find((p) => getReferenceKey(p) === objName))
             .filter((p): p is SeedingStep => p !== undefined);
 
         return sortedPlan;
@@ -201,6 +342,15 @@ export default class SeederPlanGenerate extends SfCommand<void> {
                 choices.push(`${rel.from} -> ${rel.field} -> ${rel.to} -> Lookup`);
             }
 
+            if (!this.isInteractive()) {
+                const [first] = relations;
+                this.warn(
+                    `Leaving out ${first.from}.${first.field} (lookup to ${first.to}) to break the cycle; run in a terminal to choose the lookup.`
+                );
+                selectedRemovals.add(choices[0]);
+                continue;
+            }
+
             // eslint-disable-next-line no-await-in-loop
             const result = await inquirer.prompt([
                 {
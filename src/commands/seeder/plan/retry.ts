@@ -0,0 +1,235 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages, Connection } from '@salesforce/core';
+import {
+  FieldValue,
+  RunManifest,
+  SavedReference,
+  SeederPlanRetryResult,
+  SeedingFailure,
+  SeedingFailureReport,
+  SuccessResult,
+} from '../../../types/index.js';
+import {
+  formatFailureErrors,
+  parseSaveErrors,
+  readFailureReport,
+  writeFailureReport,
+} from '../../../utils/failures.js';
+import { readRunManifest, writeRunManifest } from '../../../utils/manifest.js';
+import {
+  fetchReferencedFields,
+  getReferenceValue,
+  parseReference,
+  ParsedReference,
+  selectReference,
+} from '../../../utils/reference.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.plan.retry');
+
+function tryParseReference(token: string): ParsedReference | null {
+  try {
+    return parseReference(token);
+  } catch {
+    return null;
+  }
+}
+
+// Non-Id fields the failed records read from each reference key
+function collectRetryReferencedFields(failures: SeedingFailure[]): Map<string, Set<string>> {
+  const referenced = new Map<string, Set<string>>();
+  for (const failure of failures) {
+    for (const token of Object.values(failure.references)) {
+      const reference = tryParseReference(token);
+      if (!reference || reference.field.toLowerCase() === 'id') continue;
+      referenced.set(reference.key, (referenced.get(reference.key) ?? new Set<string>()).add(reference.field));
+    }
+  }
+
+  return referenced;
+}
+
+// References are picked again from the original run's records plus the ones retried so far
+function resolvePayload(
+  failure: SeedingFailure,
+  referenceMap: Map<string, SavedReference[]>
+): Record<string, FieldValue> {
+  const payload = { ...failure.payload };
+
+  for (const [field, token] of Object.entries(failure.references)) {
+    const reference = tryParseReference(token);
+    const candidates = reference ? referenceMap.get(reference.key) : undefined;
+    if (!reference || !candidates?.length) continue;
+
+    const value = getReferenceValue(
+      selectReference(reference, candidates, failure.index, failure.total),
+      reference.field
+    );
+    if (value !== undefined) payload[field] = value;
+  }
+
+  return payload;
+}
+
+function recordInManifest(
+  manifest: RunManifest | undefined,
+  manifestPath: string | undefined,
+  stepNumber: number,
+  sobject: string,
+  saved: SavedReference[]
+): void {
+  if (!manifest || !manifestPath) return;
+
+  manifest.steps.push({
+    step: stepNumber,
+    sobject,
+    ids: saved.map((s) => s.id),
+    timestamp: new Date().toISOString(),
+  });
+  writeRunManifest(manifestPath, manifest);
+}
+
+export default class SeederPlanRetry extends SfCommand<SeederPlanRetryResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'target-org': Flags.requiredOrg({
+      summary: messages.getMessage('flags.target-org.summary'),
+    }),
+    failures: Flags.file({
+      char: 'f',
+      summary: messages.getMessage('flags.failures.summary'),
+      required: true,
+      exists: true,
+    }),
+  };
+
+  public async run(): Promise<SeederPlanRetryResult> {
+    const { flags } = await this.parse(SeederPlanRetry);
+    const conn = flags['target-org'].getConnection();
+    const userInfo = await conn.identity();
+
+    this.log(`Connected to org: ${userInfo.username}`);
+
+    const reportPath = path.resolve(flags.failures);
+    let report: SeedingFailureReport;
+    try {
+      report = readFailureReport(reportPath, 'seeding');
+    } catch (err) {
+      this.error((err as Error).message);
+    }
+
+    if (report.org !== userInfo.username) {
+      this.error(`Failure report ${report.runId} was recorded against ${report.org}, not ${userInfo.username}.`);
+    }
+
+    const result: SeederPlanRetryResult = {
+      runId: report.runId,
+      failures: reportPath,
+      retried: report.failures.length,
+      inserted: 0,
+      failed: 0,
+      ids: [],
+    };
+    if (!report.failures.length) {
+      this.log('No failed records to retry.');
+      return result;
+    }
+
+    const manifest = report.manifest && fs.existsSync(report.manifest) ? readRunManifest(report.manifest) : undefined;
+    const referencedFields = collectRetryReferencedFields(report.failures);
+    const referenceMap = new Map(Object.entries(report.references).map(([key, saved]) => [key, [...saved.records]]));
+    const remaining: SeedingFailure[] = [];
+
+    // Steps are retried in plan order, so retried parents can be referenced by retried children
+    const stepNumbers = [...new Set(report.failures.map((f) => f.step))].sort((a, b) => a - b);
+    for (const stepNumber of stepNumbers) {
+      const group = report.failures.filter((f) => f.step === stepNumber);
+      // eslint-disable-next-line no-await-in-loop
+      const saved = await this.retryStep(conn, group, referenceMap, remaining);
+      if (!saved.length) continue;
+
+      result.ids.push(...saved.map((s) => s.id));
+      recordInManifest(manifest, report.manifest, stepNumber, group[0].sobject, saved);
+
+      const key = group[0].ref ?? group[0].sobject;
+      const references = report.references[key];
+      if (references) {
+        const wanted = [...(referencedFields.get(key) ?? [])];
+        // eslint-disable-next-line no-await-in-loop
+        await fetchReferencedFields(conn, group[0].sobject, saved, wanted);
+        referenceMap.get(key)?.push(...saved);
+        references.records.push(
+          ...saved.map((s) => ({
+            id: s.id,
+            fields: Object.fromEntries(wanted.map((field) => [field, getReferenceValue(s, field) ?? null])),
+          }))
+        );
+      }
+    }
+
+    // Keep only what still fails so the retry can be run again after the next fix.
+    report.failures = remaining;
+    writeFailureReport(reportPath, report);
+
+    result.inserted = result.ids.length;
+    result.failed = remaining.length;
+
+    if (remaining.length) {
+      this.error(`❌ ${remaining.length} record(s) still failing. They remain listed in ${reportPath}.`);
+    }
+
+    this.log(chalk.green(`✅ Retried ${result.retried} failed record(s) of run ${report.runId}.`));
+
+    return result;
+  }
+
+  private async retryStep(
+    conn: Connection,
+    group: SeedingFailure[],
+    referenceMap: Map<string, SavedReference[]>,
+    remaining: SeedingFailure[]
+  ): Promise<SavedReference[]> {
+    const { sobject, step } = group[0];
+    const payloads = group.map((failure) => resolvePayload(failure, referenceMap));
+
+    this.log(`Retrying ${group.length} ${sobject} record(s) from step ${step}...`);
+
+    let results: SuccessResult[];
+    try {
+      results = (await conn.bulk.load(sobject, 'insert', payloads)) as SuccessResult[];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.warn(`Failed inserting ${sobject}: ${message}`);
+      remaining.push(...group.map((failure, index) => ({ ...failure, payload: payloads[index] })));
+      return [];
+    }
+
+    const saved: SavedReference[] = [];
+    results.forEach((result, index) => {
+      if (result.success && typeof result.id === 'string') {
+        saved.push({ id: result.id, fields: payloads[index] });
+        return;
+      }
+
+      const errors = parseSaveErrors(result.errors);
+      this.warn(`• Record ${group[index].index + 1} — ${formatFailureErrors(errors)}`);
+      remaining.push({ ...group[index], payload: payloads[index], errors });
+    });
+
+    this.log(`Inserted ${saved.length}/${group.length} successfully.`);
+    return saved;
+  }
+}
@@ -0,0 +1,100 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages } from '@salesforce/core';
+import { SeederPlanRollbackResult, SuccessResult } from '../../../types/index.js';
+import { readRunManifest, writeRunManifest } from '../../../utils/manifest.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.plan.rollback');
+
+export default class SeederPlanRollback extends SfCommand<SeederPlanRollbackResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'target-org': Flags.requiredOrg({
+      summary: messages.getMessage('flags.target-org.summary'),
+    }),
+    manifest: Flags.file({
+      char: 'm',
+      summary: messages.getMessage('flags.manifest.summary'),
+      required: true,
+      exists: true,
+    }),
+  };
+
+  public async run(): Promise<SeederPlanRollbackResult> {
+    const { flags } = await this.parse(SeederPlanRollback);
+    const conn = flags['target-org'].getConnection();
+    const userInfo = await conn.identity();
+
+    this.log(`Connected to org: ${userInfo.username}`);
+
+    const manifestPath = path.resolve(flags.manifest);
+    const manifest = readRunManifest(manifestPath);
+
+    if (manifest.org !== userInfo.username) {
+      this.error(`Manifest ${manifest.runId} was recorded against ${manifest.org}, not ${userInfo.username}.`);
+    }
+
+    let failedCount = 0;
+    let deletedCount = 0;
+
+    // Children were created after their parents, so delete them first.
+    for (const step of [...manifest.steps].reverse()) {
+      if (!step.ids.length) continue;
+
+      this.log(`Deleting ${step.ids.length} ${step.sobject} record(s) from step ${step.step}...`);
+
+      let results: SuccessResult[];
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        results = (await conn.bulk.load(
+          step.sobject,
+          'delete',
+          step.ids.map((Id) => ({ Id }))
+        )) as SuccessResult[];
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.warn(`Failed deleting ${step.sobject}: ${message}`);
+        failedCount += step.ids.length;
+        continue;
+      }
+
+      const remaining: string[] = [];
+      results.forEach((result, index) => {
+        if (!result.success) {
+          const id = step.ids[index];
+          remaining.push(id);
+          this.warn(`• ID: ${id} — ${result.errors?.join(', ') || 'Unknown error'}`);
+        }
+      });
+
+      this.log(`Deleted ${step.ids.length - remaining.length}/${step.ids.length} successfully.`);
+      failedCount += remaining.length;
+      deletedCount += step.ids.length - remaining.length;
+      step.ids = remaining;
+    }
+
+    // Keep only what could not be deleted so the rollback can be retried.
+    manifest.steps = manifest.steps.filter((step) => step.ids.length);
+    writeRunManifest(manifestPath, manifest);
+
+    if (failedCount) {
+      this.error(`❌ ${failedCount} record(s) could not be deleted. They remain listed in ${manifestPath}.`);
+    }
+
+    this.log(chalk.green(`✅ Rolled back run ${manifest.runId}.`));
+
+    return { runId: manifest.runId, manifest: manifestPath, deleted: deletedCount };
+  }
+}
@@ -10,17 +10,74 @@ import * as path from 'node:path';
 import chalk from 'chalk';
 import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
 import { Messages, Connection } from '@salesforce/core';
-import { FieldValue, SeedingStep, SuccessResult } from '../../../types/index.js';
-import { resolveFakerExpression } from '../../../utils/faker.js';
+import {
+	FieldValue,
+	RunCheckpoint,
+	RunManifest,
+	SavedReference,
+	SavedReferenceSet,
+	SeederPlanRunResult,
+	SeederPlanRunStepResult,
+	SeedingFailure,
+	SeedingFailureReport,
+	SeedingStep,
+} from '../../../types/index.js';
+import { resolveFakerExpression, seedFaker } from '../../../utils/faker.js';
+import { readSeedingPlan } from '../../../utils/plan.js';
+import { collectVariables, resolveVariables } from '../../../utils/variables.js';
+import { parseDistributionExpression, resolveDistribution, rollNull } from '../../../utils/distribution.js';
+import { fetchRecordTypeIds, parseRecordTypeExpression, recordTypeKey } from '../../../utils/recordType.js';
+import {
+	hasTemplateTokens,
+	orderFieldsBySelfReferences,
+	parseTemplate,
+	renderTemplate,
+} from '../../../utils/template.js';
+import {
+	collectReferencedFields,
+	fetchReferencedFields,
+	getReferenceKey,
+	getReferenceValue,
+	isReference,
+	parseReference,
+	ParsedReference,
+	selectReference,
+} from '../../../utils/reference.js';
+import { createRunManifest, defaultManifestPath, readRunManifest, writeRunManifest } from '../../../utils/manifest.js';
+import { checkDmlOptions, DML_APIS, DmlOptions, DmlResult, executeDml } from '../../../utils/dml.js';
+import { checkpointPathFor, hashPlanSteps, readCheckpoint, writeCheckpoint } from '../../../utils/checkpoint.js';
+import {
+	defaultFailureReportPath,
+	formatFailureErrors,
+	parseSaveErrors,
+	writeFailureReport,
+} from '../../../utils/failures.js';
 
 Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
 const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.plan.run');
 
-function isSuccess(result: SuccessResult): result is SuccessResult {
+function isSuccess(result: DmlResult): result is DmlResult & { id: string } {
 	return result.success === true && typeof result.id === 'string';
 }
 
-export default class SeederPlanRun extends SfCommand<void> {
+function describeStep(step: SeedingStep): string {
+	return step.ref ? `${step.sobject} (${step.ref})` : step.sobject;
+}
+
+function emptyStepResult(step: SeedingStep, stepNumber: number, requested: number): SeederPlanRunStepResult {
+	return {
+		step: stepNumber,
+		sobject: step.sobject,
+		...(step.ref ? { ref: step.ref } : {}),
+		requested,
+		inserted: 0,
+		failed: 0,
+		ids: [],
+		errors: [],
+	};
+}
+
+export default class SeederPlanRun extends SfCommand<SeederPlanRunResult> {
 	public static readonly summary = messages.getMessage('summary');
 	public static readonly description = messages.getMessage('description');
 	public static readonly examples = messages.getMessages('examples');
@@ -46,9 +103,61 @@ export default class SeederPlanRun extends SfCommand<void> {
 			required: true,
 			exists: true,
 		}),
+		seed: Flags.integer({
+			summary: messages.getMessage('flags.seed.summary'),
+			description: messages.getMessage('flags.seed.description'),
+		}),
+		manifest: Flags.string({
+			summary: messages.getMessage('flags.manifest.summary'),
+			description: messages.getMessage('flags.manifest.description'),
+		}),
+		var: Flags.string({
+			summary: messages.getMessage('flags.var.summary'),
+			description: messages.getMessage('flags.var.description'),
+			multiple: true,
+		}),
+		'vars-file': Flags.file({
+			summary: messages.getMessage('flags.vars-file.summary'),
+			exists: true,
+		}),
+		failures: Flags.string({
+			summary: messages.getMessage('flags.failures.summary'),
+			description: messages.getMessage('flags.failures.description'),
+		}),
+		api: Flags.option({
+			summary: messages.getMessage('flags.api.summary'),
+			description: messages.getMessage('flags.api.description'),
+			options: DML_APIS,
+			default: 'bulk',
+		})(),
+		'batch-size': Flags.integer({
+			summary: messages.getMessage('flags.batch-size.summary'),
+		}),
+		'concurrency-mode': Flags.option({
+			summary: messages.getMessage('flags.concurrency-mode.summary'),
+			options: ['Serial', 'Parallel'] as const,
+		})(),
+		'poll-timeout': Flags.integer({
+			summary: messages.getMessage('flags.poll-timeout.summary'),
+		}),
+		resume: Flags.file({
+			summary: messages.getMessage('flags.resume.summary'),
+			description: messages.getMessage('flags.resume.description'),
+			exists: true,
+			exclusive: ['dryrun', 'manifest'],
+		}),
 	};
 
-	public async run(): Promise<void> {
+	private manifest?: RunManifest;
+	private manifestPath?: string;
+	private referencedFields = new Map<string, Set<string>>();
+	private recordTypeIds = new Map<string, string>();
+	private failures: SeedingFailure[] = [];
+	private checkpoint?: RunCheckpoint;
+	private checkpointPath?: string;
+	private dmlOptions: DmlOptions = { api: 'bulk' };
+
+	public async run(): Promise<SeederPlanRunResult> {
 		const { flags } = await this.parse(SeederPlanRun);
 
 		const targetOrg = flags['target-org'];
@@ -64,26 +173,57 @@ export default class SeederPlanRun extends SfCommand<void> {
 
 		this.log(`Connected to org: ${userInfo.username}`);
 
-		const fileContent = fs.readFileSync(plans, 'utf-8');
-		// this.log(`Loaded file content from ${plans}:\n${fileContent}`);
+		const seedingPlan = readSeedingPlan(plans);
 
-		const planList: SeedingStep[] = JSON.parse(fileContent) as SeedingStep[];
+		let variables: Record<string, FieldValue>;
+		try {
+			variables = collectVariables(seedingPlan.variables, flags['vars-file'], flags['var']);
+		} catch (err) {
+			this.error((err as Error).message);
+		}
 
-		this.log('Starting data seeding...');
+		const resolved = resolveVariables('Step', seedingPlan.steps, variables, this.warn.bind(this));
+		if (!resolved.valid) {
+			this.error('❌ Seeder Plan uses undefined variables. Define them in "variables", --vars-file or --var.');
+		}
+		const planList: SeedingStep[] = resolved.entries;
+
+		this.dmlOptions = {
+			api: flags['api'],
+			batchSize: flags['batch-size'],
+			concurrencyMode: flags['concurrency-mode'],
+			pollTimeout: flags['poll-timeout'],
+		};
+		try {
+			checkDmlOptions(this.dmlOptions);
+		} catch (err) {
+			this.error((err as Error).message);
+		}
 
-		const referenceMap = new Map<string, SuccessResult[]>();
-		const allDryRunOutput = new Map<string, Array<Record<string, FieldValue>>>();
+		const resumed = flags['resume'] ? this.loadCheckpoint(flags['resume'], userInfo.username, planList) : undefined;
 
-		for (const step of planList) {
-			if (isDryRun && summaryOnly) {
-				this.log(chalk.magenta(`\n▶ ${step.sobject} (${step.count} records)`));
-				this.log(chalk.gray(`  Fields: ${Object.keys(step.fields).join(', ')}`));
-			} else {
-				// eslint-disable-next-line no-await-in-loop
-				await this.processStep(conn, step, isDryRun, referenceMap, allDryRunOutput);
-			}
+		const seed = flags['seed'] ?? resumed?.seed ?? seedingPlan.seed;
+		if (seed !== undefined) {
+			seedFaker(seed);
+			this.log(`🎲 Using seed ${seed}`);
 		}
 
+		if (!isDryRun) {
+			this.startRun(userInfo.username, flags['manifest'], plans, planList, seed, resumed);
+		}
+
+		this.log('Starting data seeding...');
+
+		this.referencedFields = collectReferencedFields(planList);
+		this.recordTypeIds = await fetchRecordTypeIds(conn, planList);
+
+		// A resumed run starts with the records saved by the steps that already ran
+		const referenceMap = new Map<string, SavedReference[]>(
+			Object.entries(resumed?.references ?? {}).map(([key, saved]) => [key, saved.records])
+		);
+		const allDryRunOutput = new Map<string, Array<Record<string, FieldValue>>>();
+		const stepResults = await this.runSteps(conn, planList, isDryRun, summaryOnly, referenceMap, allDryRunOutput);
+
 		if (isDryRun && !summaryOnly) {
 			const dryRunObj = Object.fromEntries(allDryRunOutput);
 			if (isDryRunSave) {
@@ -96,90 +236,418 @@ export default class SeederPlanRun extends SfCommand<void> {
 			}
 		}
 
+		if (this.manifestPath) {
+			this.log(chalk.green(`🧾 Run manifest saved to ${this.manifestPath}`));
+		}
+
+		// The run finished, so there is nothing left to resume
+		if (this.checkpointPath) fs.rmSync(this.checkpointPath, { force: true });
+
+		const failuresPath = this.saveFailureReport(flags['failures'], planList, referenceMap);
+
 		this.log(chalk.green('Data seeding plan completed successfully!'));
+
+		return {
+			...(this.manifest ? { runId: this.manifest.runId, manifest: this.manifestPath } : {}),
+			dryRun: isDryRun,
+			...(seed !== undefined ? { seed } : {}),
+			...(failuresPath ? { failures: failuresPath } : {}),
+			steps: stepResults,
+		};
+	}
+
+	private async runSteps(
+		conn: Connection,
+		planList: SeedingStep[],
+		isDryRun: boolean,
+		summaryOnly: boolean,
+		referenceMap: Map<string, SavedReference[]>,
+		allDryRunOutput: Map<string, Array<Record<string, FieldValue>>>
+	): Promise<SeederPlanRunStepResult[]> {
+		const stepResults: SeederPlanRunStepResult[] = [];
+
+		for (const [index, step] of planList.entries()) {
+			if (this.checkpoint?.completedSteps.includes(index + 1)) {
+				this.log(`⏭️  Skipping step ${index + 1} ${describeStep(step)}, completed before the run was resumed.`);
+				continue;
+			}
+
+			if (isDryRun && summaryOnly) {
+				this.log(chalk.magenta(`\n▶ ${describeStep(step)} (${step.count} records)`));
+				this.log(chalk.gray(`  Fields: ${Object.keys(step.fields).join(', ')}`));
+				stepResults.push(emptyStepResult(step, index + 1, step.count));
+				continue;
+			}
+
+			try {
+				stepResults.push(
+					// eslint-disable-next-line no-await-in-loop
+					await this.processStep(conn, step, index + 1, isDryRun, referenceMap, allDryRunOutput)
+				);
+			} catch (error) {
+				if (this.checkpointPath) {
+					this.log(`💾 Continue from step ${index + 1} with: --resume ${this.checkpointPath}`);
+				}
+				throw error;
+			}
+
+			this.saveCheckpoint(index + 1, planList, referenceMap);
+		}
+
+		return stepResults;
+	}
+
+	// Continues the manifest and failures of a resumed run, or starts new ones
+	private startRun(
+		org: string,
+		manifestFlag: string | undefined,
+		planPath: string,
+		planList: SeedingStep[],
+		seed: number | undefined,
+		resumed: RunCheckpoint | undefined
+	): void {
+		if (resumed) {
+			this.manifestPath = resumed.manifest;
+			this.manifest = fs.existsSync(resumed.manifest)
+				? readRunManifest(resumed.manifest)
+				: { runId: resumed.runId, org, createdAt: resumed.createdAt, steps: [] };
+			this.failures = [...resumed.failures];
+			this.checkpoint = resumed;
+		} else {
+			this.manifest = createRunManifest(org);
+			this.manifestPath = manifestFlag ? path.resolve(manifestFlag) : defaultManifestPath(this.manifest);
+			this.checkpoint = {
+				runId: this.manifest.runId,
+				org,
+				createdAt: this.manifest.createdAt,
+				updatedAt: this.manifest.createdAt,
+				plan: path.resolve(planPath),
+				planHash: hashPlanSteps(planList),
+				...(seed !== undefined ? { seed } : {}),
+				manifest: this.manifestPath,
+				completedSteps: [],
+				references: {},
+				failures: [],
+			};
+		}
+
+		this.checkpointPath = checkpointPathFor(this.manifestPath);
+		this.log(`📝 Recording created records in ${this.manifestPath}`);
+	}
+
+	private loadCheckpoint(filePath: string, org: string, planList: SeedingStep[]): RunCheckpoint {
+		let checkpoint: RunCheckpoint;
+		try {
+			checkpoint = readCheckpoint(path.resolve(filePath));
+		} catch (err) {
+			this.error((err as Error).message);
+		}
+
+		if (checkpoint.org !== org) {
+			this.error(`Checkpoint ${checkpoint.runId} was recorded against ${checkpoint.org}, not ${org}.`);
+		}
+		if (checkpoint.planHash !== hashPlanSteps(planList)) {
+			this.error(`❌ The plan changed since run ${checkpoint.runId} started, so it cannot be resumed.`);
+		}
+
+		this.log(`↪️  Resuming run ${checkpoint.runId} after step(s) ${checkpoint.completedSteps.join(', ') || 'none'}`);
+		return checkpoint;
+	}
+
+	private saveCheckpoint(
+		stepNumber: number,
+		planList: SeedingStep[],
+		referenceMap: Map<string, SavedReference[]>
+	): void {
+		if (!this.checkpoint || !this.checkpointPath) return;
+
+		this.checkpoint.completedSteps.push(stepNumber);
+		this.checkpoint.references = this.snapshotReferences(planList, referenceMap);
+		this.checkpoint.failures = this.failures;
+		this.checkpoint.updatedAt = new Date().toISOString();
+		writeCheckpoint(this.checkpointPath, this.checkpoint);
 	}
 
 	private async processStep(
 		conn: Connection,
 		step: SeedingStep,
+		stepNumber: number,
 		isDryRun: boolean,
-		referenceMap: Map<string, SuccessResult[]>,
+		referenceMap: Map<string, SavedReference[]>,
 		allDryRunOutput: Map<string, Array<Record<string, FieldValue>>>
-	): Promise<void> {
-		this.log(`Inserting ${step.count} record(s) into ${step.sobject}...`);
+	): Promise<SeederPlanRunStepResult> {
+		const refKey = getReferenceKey(step);
+		this.log(`Inserting ${step.count} record(s) into ${describeStep(step)}...`);
 		const records: Array<Record<string, FieldValue>> = [];
 
+		let fieldOrder: string[] = [];
+		try {
+			fieldOrder = orderFieldsBySelfReferences(step.fields);
+		} catch (error) {
+			this.error(`Failed preparing ${describeStep(step)}: ${(error as Error).message}`);
+		}
+
 		for (let i = 0; i < step.count; i++) {
-			const record: Record<string, FieldValue> = {};
-			for (const [field, value] of Object.entries(step.fields)) {
-				record[field] = this.processValue(value, i, isDryRun, referenceMap);
+			// Keys are created in plan order, then filled so #{this.*} sees the fields it depends on
+			const record: Record<string, FieldValue> = Object.fromEntries(Object.keys(step.fields).map((f) => [f, null]));
+			for (const field of fieldOrder) {
+				record[field] = rollNull(step.nullRate?.[field])
+					? null
+					: this.processValue(step.fields[field], i, step.count, isDryRun, referenceMap, record);
 			}
 			records.push(record);
 		}
 
+		const stepResult = emptyStepResult(step, stepNumber, records.length);
+
 		if (!records.length) {
 			this.warn(`No records to create for ${step.sobject}. Skipping...`);
-			return;
+			return stepResult;
 		}
 
 		if (isDryRun) {
-			allDryRunOutput.set(step.sobject, records);
-			return;
+			allDryRunOutput.set(refKey, [...(allDryRunOutput.get(refKey) ?? []), ...records]);
+			return { ...stepResult, records };
 		}
 
 		try {
-			const results: SuccessResult[] = (await conn.bulk.load(step.sobject, 'insert', records)) as SuccessResult[];
-			//   this.log(`Success Result ${JSON.stringify(results)}`);
+			const results = await executeDml(conn, step.sobject, 'insert', records, this.dmlOptions);
 
-			const successes: SuccessResult[] = results.filter(isSuccess);
-			const failures: SuccessResult[] = results.filter((r) => !isSuccess(r));
+			const successes = results.filter(isSuccess);
+			const failures = results.filter((r) => !isSuccess(r));
+
+			this.recordInManifest(stepNumber, step.sobject, successes);
 
 			if (step.saveRefs) {
-				referenceMap.set(step.sobject, successes);
+				const saved: SavedReference[] = [];
+				results.forEach((result, index) => {
+					if (isSuccess(result)) saved.push({ id: result.id, fields: records[index] });
+				});
+				await fetchReferencedFields(conn, step.sobject, saved, [...(this.referencedFields.get(refKey) ?? [])]);
+				referenceMap.set(refKey, saved);
 			}
 
-			if (failures.length) {
-				this.warn(`${failures.length} failed insert(s):`);
-				failures.forEach((err) =>
-					this.warn(`• ID: ${err.id ?? 'N/A'} — ${err.errors?.join(', ') || 'Unknown error'}\n`)
+			const stepFailures = this.recordFailures(step, stepNumber, records, results);
+			if (stepFailures.length) {
+				this.warn(`${stepFailures.length} failed insert(s):`);
+				stepFailures.forEach((failure) =>
+					this.warn(`• Record ${failure.index + 1} — ${formatFailureErrors(failure.errors)}\n`)
 				);
 			}
 
 			this.log(`Inserted ${successes.length}/${records.length} successfully.`);
+
+			return {
+				...stepResult,
+				inserted: successes.length,
+				failed: failures.length,
+				ids: successes.map((r) => r.id),
+				errors: stepFailures.map((failure) => formatFailureErrors(failure.errors)),
+			};
 		} catch (error) {
 			const message = error instanceof Error ? error.message : 'Unknown error';
 			this.error(`Failed inserting ${step.sobject}: ${message}`);
 		}
 	}
 
+	// Keeps the payload of every failed row with the raw @{...} tokens it was built from, for retries
+	private recordFailures(
+		step: SeedingStep,
+		stepNumber: number,
+		records: Array<Record<string, FieldValue>>,
+		results: DmlResult[]
+	): SeedingFailure[] {
+		const references = Object.fromEntries(
+			Object.entries(step.fields).filter((entry): entry is [string, string] => isReference(entry[1]))
+		);
+
+		const stepFailures: SeedingFailure[] = [];
+		results.forEach((result, index) => {
+			if (result.success) return;
+			stepFailures.push({
+				step: stepNumber,
+				sobject: step.sobject,
+				...(step.ref ? { ref: step.ref } : {}),
+				index,
+				total: records.length,
+				payload: records[index],
+				references,
+				errors: parseSaveErrors(result.errors),
+			});
+		});
+
+		this.failures.push(...stepFailures);
+		return stepFailures;
+	}
+
+	private saveFailureReport(
+		outputPath: string | undefined,
+		planList: SeedingStep[],
+		referenceMap: Map<string, SavedReference[]>
+	): string | undefined {
+		if (!this.manifest || !this.failures.length) return undefined;
+
+		const failuresPath = outputPath ? path.resolve(outputPath) : defaultFailureReportPath(this.manifest.runId);
+		const csvPath = writeFailureReport(failuresPath, this.buildFailureReport(this.manifest, planList, referenceMap));
+		this.warn(`${this.failures.length} record(s) failed. Failure report saved to ${failuresPath} and ${csvPath}`);
+		this.log(`Fix the data or org configuration, then run: sf seeder plan retry --failures ${failuresPath}`);
+		return failuresPath;
+	}
+
+	private buildFailureReport(
+		manifest: RunManifest,
+		planList: SeedingStep[],
+		referenceMap: Map<string, SavedReference[]>
+	): SeedingFailureReport {
+		return {
+			kind: 'seeding',
+			runId: manifest.runId,
+			org: manifest.org,
+			createdAt: new Date().toISOString(),
+			...(this.manifestPath ? { manifest: this.manifestPath } : {}),
+			references: this.snapshotReferences(planList, referenceMap),
+			failures: this.failures,
+		};
+	}
+
+	private snapshotReferences(
+		planList: SeedingStep[],
+		referenceMap: Map<string, SavedReference[]>
+	): Record<string, SavedReferenceSet> {
+		const references: Record<string, SavedReferenceSet> = {};
+		for (const step of planList) {
+			const key = getReferenceKey(step);
+			const saved = referenceMap.get(key);
+			if (!saved) continue;
+
+			// Only the fields later steps reference are needed to resolve them again
+			const wanted = [...(this.referencedFields.get(key) ?? [])];
+			references[key] = {
+				sobject: step.sobject,
+				records: saved.map((s) => ({
+					id: s.id,
+					fields: Object.fromEntries(wanted.map((field) => [field, getReferenceValue(s, field) ?? null])),
+				})),
+			};
+		}
+
+		return references;
+	}
+
+	private recordInManifest(stepNumber: number, sobject: string, successes: Array<{ id: string }>): void {
+		if (!this.manifest || !this.manifestPath || !successes.length) return;
+
+		this.manifest.steps.push({
+			step: stepNumber,
+			sobject,
+			ids: successes.map((r) => r.id),
+			timestamp: new Date().toISOString(),
+		});
+		writeRunManifest(this.manifestPath, this.manifest);
+	}
+
 	private processValue(
 		value: FieldValue,
 		counter: number,
+		total: number,
 		isDryRun: boolean,
-		referenceMap: Map<string, SuccessResult[]>
+		referenceMap: Map<string, SavedReference[]>,
+		record: Record<string, FieldValue>
 	): FieldValue {
 		if (typeof value !== 'string') return value;
 
-		const fakerResolved: FieldValue = resolveFakerExpression(value, this.warn.bind(this));
-		if (fakerResolved !== null) return fakerResolved;
+		// Replace #{counter}, #{faker.*}, #{pick(...)}, #{range(...)}, #{recordType.*}, #{this.*} and any mix of tokens and literal text
+		let resolved: FieldValue = value;
+		if (hasTemplateTokens(value)) {
+			try {
+				resolved = renderTemplate(parseTemplate(value), (expression, raw) =>
+					this.resolveToken(expression, raw, counter, record)
+				);
+			} catch (error) {
+				this.warn(`Could not resolve "${value}": ${(error as Error).message}`);
+			}
+		}
+		if (typeof resolved !== 'string') return resolved;
+
+		// Replace @{Object.Field} and @{Object.Field | strategy}
+		if (!isDryRun) {
+			let reference: ParsedReference | null;
+			try {
+				reference = parseReference(resolved);
+			} catch (error) {
+				this.warn(`${(error as Error).message}. Returning null.`);
+				return null;
+			}
 
-		// Replace #{counter} → number
-		const resolved: FieldValue = value.replace(/#\{counter\}/g, (counter + 1).toString());
+			if (reference) {
+				return this.resolveReference(reference, counter, total, referenceMap);
+			}
+		}
 
-		// Replace @{Object.Id}
-		if (!isDryRun && resolved.startsWith('@{') && resolved.endsWith('}')) {
-			const refKey = resolved.slice(2, -1).split('.')[0];
-			const refList = referenceMap.get(refKey);
+		return resolved;
+	}
 
-			if (refList && refList.length > 0) {
-				const random = refList[Math.floor(Math.random() * refList.length)];
-				return random.id;
-			}
+	private resolveReference(
+		reference: ParsedReference,
+		counter: number,
+		total: number,
+		referenceMap: Map<string, SavedReference[]>
+	): FieldValue {
+		const refList = referenceMap.get(reference.key);
 
-			this.warn(`Reference not found for key: ${refKey}. Returning null.`);
+		if (!refList || refList.length === 0) {
+			this.warn(`Reference not found for key: ${reference.key}. Returning null.`);
 			return null;
 		}
 
-		return resolved;
+		const parent = selectReference(reference, refList, counter, total);
+		const fieldValue = getReferenceValue(parent, reference.field);
+		if (fieldValue === undefined) {
+			this.warn(`Field ${reference.field} was not saved for ${reference.key} ${parent.id}. Returning null.`);
+			return null;
+		}
+
+		return fieldValue;
+	}
+
+	private resolveToken(
+		expression: string,
+		raw: string,
+		counter: number,
+		record: Record<string, FieldValue>
+	): FieldValue {
+		if (expression === 'counter') return (counter + 1).toString();
+
+		// Fields of the same record are resolved first, see orderFieldsBySelfReferences
+		if (expression.startsWith('this.')) {
+			const field = expression.slice(5).trim();
+			if (field in record) return record[field];
+			this.warn(`Field ${field} referenced by ${raw} is not part of the record. Returning null.`);
+			return null;
+		}
+
+		try {
+			const distribution = parseDistributionExpression(expression);
+			if (distribution) return resolveDistribution(distribution, record);
+
+			const recordType = parseRecordTypeExpression(expression);
+			if (recordType) {
+				const recordTypeId = this.recordTypeIds.get(recordTypeKey(recordType.sobject, recordType.developerName));
+				if (recordTypeId) return recordTypeId;
+				this.warn(`Record type ${recordType.developerName} not found on ${recordType.sobject}. Returning null.`);
+				return null;
+			}
+		} catch (error) {
+			this.warn(`Could not resolve ${raw}: ${(error as Error).message}`);
+			return raw;
+		}
+
+		if (expression.startsWith('faker.')) {
+			const fakerResolved = resolveFakerExpression(`#{${expression}}`, this.warn.bind(this));
+			if (fakerResolved !== null) return fakerResolved;
+		}
+
+		// Unknown or unresolvable tokens are kept as written
+		return raw;
 	}
 }
@@ -0,0 +1,52 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages } from '@salesforce/core';
+import { loadPlanSchema, PlanKind } from '../../../utils/schema.js';
+import { SeederPlanSchemaResult } from '../../../types/index.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.plan.schema');
+
+export default class SeederPlanSchema extends SfCommand<SeederPlanSchemaResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    type: Flags.option({
+      char: 't',
+      summary: messages.getMessage('flags.type.summary'),
+      options: ['seeding', 'migration'] as const,
+      default: 'seeding',
+    })(),
+    output: Flags.string({
+      summary: messages.getMessage('flags.output.summary'),
+    }),
+  };
+
+  public async run(): Promise<SeederPlanSchemaResult> {
+    const { flags } = await this.parse(SeederPlanSchema);
+    const type = flags.type as PlanKind;
+    const schema = loadPlanSchema(type);
+    const content = JSON.stringify(schema, null, 2);
+
+    if (flags.output) {
+      const outputPath = path.resolve(flags.output);
+      fs.writeFileSync(outputPath, content);
+      this.log(chalk.green(`✅ Schema saved to ${outputPath}`));
+      return { type, path: outputPath, schema };
+    }
+
+    this.log(content);
+    return { type, schema };
+  }
+}
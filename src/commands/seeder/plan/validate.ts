@@ -5,16 +5,25 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 
-import * as fs from 'node:fs';
 import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
-import { Messages } from '@salesforce/core';
+import { Messages, SfError } from '@salesforce/core';
 import { validatePlanStructure, validateMetadata } from '../../../utils/validator.js';
-import { SeedingStep } from '../../../types/index.js';
+import { readSeedingPlan } from '../../../utils/plan.js';
+import { checkPlanFileSchema } from '../../../utils/schema.js';
+import { collectVariables, resolveVariables } from '../../../utils/variables.js';
+import { SeederPlanValidateResult, SeedingStep } from '../../../types/index.js';
 
 Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
 const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.plan.validate');
 
-export default class SeederPlanValidate extends SfCommand<void> {
+// The result rides on the error, so --json prints the diagnostics in the error's data with status 1
+function validationFailed(result: SeederPlanValidateResult, message: string): SfError<SeederPlanValidateResult> {
+  const error = new SfError<SeederPlanValidateResult>(message, 'PlanValidationFailed', undefined, 1);
+  error.data = result;
+  return error;
+}
+
+export default class SeederPlanValidate extends SfCommand<SeederPlanValidateResult> {
   public static readonly summary = messages.getMessage('summary');
   public static readonly description = messages.getMessage('description');
   public static readonly examples = messages.getMessages('examples');
@@ -33,9 +42,18 @@ export default class SeederPlanValidate extends SfCommand<void> {
       required: true,
       exists: true,
     }),
+    var: Flags.string({
+      summary: messages.getMessage('flags.var.summary'),
+      description: messages.getMessage('flags.var.description'),
+      multiple: true,
+    }),
+    'vars-file': Flags.file({
+      summary: messages.getMessage('flags.vars-file.summary'),
+      exists: true,
+    }),
   };
 
-  public async run(): Promise<void> {
+  public async run(): Promise<SeederPlanValidateResult> {
     const { flags } = await this.parse(SeederPlanValidate);
     const conn = flags['target-org'].getConnection();
     const shouldValidateMetadata = flags['validate-metadata'];
@@ -43,29 +61,40 @@ export default class SeederPlanValidate extends SfCommand<void> {
 
     this.log(`Connected to org: ${userInfo.username}`);
 
-    const filePath = flags.plan;
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const diagnostics: string[] = [];
+    const report = (message: string): void => {
+      diagnostics.push(message);
+      this.warn(message);
+    };
 
     let plan: SeedingStep[];
 
+    // Shape errors are reported per file with their JSON pointer before any semantic checks run
+    let variablesValid: boolean;
     try {
-      plan = JSON.parse(content) as SeedingStep[];
+      const seedingPlan = readSeedingPlan(flags.plan, checkPlanFileSchema('seeding', report));
+      const variables = collectVariables(seedingPlan.variables, flags['vars-file'], flags.var);
+      const resolved = resolveVariables('Step', seedingPlan.steps, variables, report);
+      plan = resolved.entries;
+      variablesValid = resolved.valid;
     } catch (err) {
-      this.error(`Invalid JSON format: ${(err as Error).message}`);
-      return;
+      diagnostics.push((err as Error).message);
+      throw validationFailed({ valid: false, steps: 0, diagnostics }, (err as Error).message);
     }
 
-    const structureValid = validatePlanStructure(plan, this.warn.bind(this));
+    const structureValid = validatePlanStructure(plan, report) && variablesValid;
 
     let metadataValid = true;
     if (shouldValidateMetadata) {
-      metadataValid = await validateMetadata(plan, conn, this.log.bind(this), this.warn.bind(this));
+      metadataValid = await validateMetadata(plan, conn, this.log.bind(this), report);
     }
 
-    if (!structureValid || !metadataValid) {
-      this.error('❌ Seeder Plan validation failed. Fix the above issues.');
-    } else {
-      this.log('✅ Seeder Plan is valid and ready for seeding.');
+    const result = { valid: structureValid && metadataValid, steps: plan.length, diagnostics };
+    if (!result.valid) {
+      throw validationFailed(result, '❌ Seeder Plan validation failed. Fix the above issues.');
     }
+
+    this.log('✅ Seeder Plan is valid and ready for seeding.');
+    return result;
   }
 }
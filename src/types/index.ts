@@ -12,7 +12,29 @@ export type SeedingStep = {
 	sobject: string; // API name of the object (e.g., "Account")
 	count: number; // Number of records to create
 	saveRefs?: boolean; // Save references for later use
+	ref?: string; // Name to save references under (defaults to sobject), e.g. "Partners" for @{Partners.Id}
 	fields: Record<string, FieldValue>; // Field-value mappings
+	nullRate?: Record<string, number>; // Per-field probability (0 to 1) of leaving the field null
+};
+
+// Top-level seeding plan (a bare array of steps is also accepted)
+export type SeedingPlan = {
+	seed?: number; // Seed for faker values and reference selection
+	variables?: Record<string, FieldValue>; // Values for ${var.name} tokens, overridden by --vars-file and --var
+	steps: SeedingStep[];
+};
+
+// Entry in "steps" or "objects" that splices in the entries of another plan file
+export type PlanInclude = {
+	include: string; // Path relative to the including file
+};
+
+// A seeding plan as written in one file, before includes and extends are resolved
+export type SeedingPlanFile = {
+	seed?: number;
+	variables?: Record<string, FieldValue>;
+	extends?: string; // Base plan whose steps come first; steps with the same ref key are merged into them
+	steps: Array<SeedingStep | PlanInclude>;
 };
 
 // Result of a DML operation (used for reference resolution & reporting)
@@ -22,16 +44,173 @@ export type SuccessResult = {
 	errors: string[];
 };
 
+// A record created by a `saveRefs` step, kept so later steps can reference its fields
+export type SavedReference = {
+	id: string;
+	fields: Record<string, FieldValue>; // Values sent on insert, plus referenced fields queried back
+};
+
+// The records of one saveRefs step, as persisted in checkpoints and failure reports
+export type SavedReferenceSet = {
+	sobject: string;
+	records: SavedReference[];
+};
+
+// Record of the IDs created by one `seeder plan run`, used for rollback
+export type RunManifest = {
+	runId: string;
+	org: string; // Username of the org the records were created in
+	createdAt: string;
+	steps: RunManifestStep[];
+};
+
+export type RunManifestStep = {
+	step: number; // 1-based position of the step in the plan
+	sobject: string;
+	ids: string[];
+	timestamp: string;
+};
+
+// Progress of a `seeder plan run`, written after every step so an interrupted run can be resumed
+export type RunCheckpoint = {
+	runId: string;
+	org: string;
+	createdAt: string;
+	updatedAt: string;
+	plan: string; // Path of the plan file
+	planHash: string; // Hash of the resolved steps, a changed plan cannot be resumed
+	seed?: number;
+	manifest: string;
+	completedSteps: number[]; // 1-based positions of the steps that ran
+	references: Record<string, SavedReferenceSet>; // Records saved by saveRefs steps, by reference key
+	failures: SeedingFailure[]; // Failed records so far, for the failure report
+};
+
+// Error of one failed record, e.g. { code: "DUPLICATE_VALUE", message: "duplicate value found" }
+export type FailureError = {
+	code?: string;
+	message: string;
+};
+
+// A record `seeder plan run` could not insert, kept so `seeder plan retry` can re-submit it
+export type SeedingFailure = {
+	step: number; // 1-based position of the step in the plan
+	sobject: string;
+	ref?: string;
+	index: number; // Position of the record within its step, used to re-select references
+	total: number; // Records in the step
+	payload: Record<string, FieldValue>;
+	references: Record<string, string>; // Field -> @{...} token, re-resolved on retry
+	errors: FailureError[];
+};
+
+export type SeedingFailureReport = {
+	kind: 'seeding';
+	runId: string;
+	org: string;
+	createdAt: string;
+	manifest?: string; // Run manifest that retried records are added to
+	references: Record<string, SavedReferenceSet>; // Records saved by saveRefs steps, by reference key
+	failures: SeedingFailure[];
+};
+
+// A record `seeder data migrate` could not write, kept so `seeder data retry` can re-submit it
+export type MigrationFailure = {
+	step: number; // 1-based position of the object in the migration order
+	sobject: string;
+	operation: MigrationOperation;
+	externalId?: string;
+	sourceId: string;
+	payload: Record<string, FieldValue>;
+	lookups: Record<string, string>; // Field -> source org ID, mapped to the target org on retry
+	errors: FailureError[];
+};
+
+export type MigrationFailureReport = {
+	kind: 'migration';
+	runId: string;
+	org: string; // Username of the target org
+	createdAt: string;
+	idMap: Record<string, Record<string, string>>; // SObject -> source ID -> target ID
+	idMapStore?: string; // Path of the ID map store the run read and updated
+	sourceOrg?: string; // Org ID the records came from, which the ID map store is kept for
+	failures: MigrationFailure[];
+};
+
+// What `seeder data migrate --dryrun` found a migration would do to one source record
+export type MigrationPreviewAction = 'create' | 'update' | 'unchanged' | 'delete' | 'notFound';
+
+export type MigrationPreviewRecord = {
+	sourceId: string;
+	action: MigrationPreviewAction;
+	targetId?: string; // Matched target record
+	changes?: Record<string, { from: FieldValue; to: FieldValue }>; // Target field -> target value and migrated value, on updates
+	record?: Record<string, FieldValue>; // Payload that would be inserted, on creates
+};
+
+export type MigrationPreviewObject = {
+	sobject: string;
+	operation: MigrationOperation;
+	externalId?: string;
+	records: MigrationPreviewRecord[];
+};
+
+export type MigrationPreviewReport = {
+	runId: string;
+	org: string; // Username of the target org
+	createdAt: string;
+	objects: MigrationPreviewObject[];
+};
+
+// Source to target ID map of every `seeder data migrate` between two orgs, reused by later migrations
+export type IdMapStore = {
+	sourceOrg: string; // Org ID
+	targetOrg: string; // Org ID
+	updatedAt: string;
+	idMap: Record<string, Record<string, string>>; // SObject -> source ID -> target ID
+};
+
+// Records of a migration plan exported by `seeder data export`, loaded into an org by `seeder data import`
+export type DataBundle = {
+	sourceOrg: string; // Org ID the records were exported from, pairs imports with their ID map store
+	createdAt: string;
+	format: DataBundleFormat;
+	plan: MigrationPlan; // The plan as resolved on export, without its mask rules, which were applied to the records
+	objects: DataBundleObject[];
+};
+
+export type DataBundleFormat = 'json' | 'csv';
+
+export type DataBundleObject = {
+	sobject: string;
+	query: string; // Query the records were exported with
+	file: string; // Records file, relative to the bundle directory
+	records: number;
+};
+
 export type MigrationPlan = {
+	variables?: Record<string, FieldValue>; // Values for ${var.name} tokens, overridden by --vars-file and --var
+	maskProfile?: Record<string, string>; // Salesforce field type -> faker token masking every migrated field of that type
 	objects: MigrationObject[];
 }
 
+// A migration plan as written in one file, before includes and extends are resolved
+export type MigrationPlanFile = {
+	variables?: Record<string, FieldValue>;
+	extends?: string; // Base plan whose objects come first; objects with the same sobject are merged into them
+	maskProfile?: Record<string, string>;
+	objects: Array<MigrationObject | PlanInclude>;
+}
+
+export type MigrationOperation = 'Insert' | 'Upsert' | 'Update' | 'Delete';
+
 export type MigrationObject = {
 	sobject: string;
 
 	/**
 	 * Optional: Custom SOQL query to retrieve records from the source org.
 	 * If not provided, default to `SELECT FIELDS(ALL) FROM {sobject}`
+	 * Clauses are kept; `Relationship.ExternalIdField` links records to their parent by external ID
 	 */
 	query?: string;
 
@@ -39,12 +218,158 @@ export type MigrationObject = {
 	 * Optional: Operation to perform on target org
 	 * - "Insert" (default)
 	 * - "Upsert"
+	 * - "Update": target records matched by externalId, else by the ID map of earlier migrations
+	 * - "Delete": deletes the target records matched the same way as for "Update"
 	 */
-	operation?: 'Insert' | 'Upsert';
+	operation?: MigrationOperation;
 
 	/**
-	 * Required if operation is "Upsert"
+	 * Required if operation is "Upsert"; for "Update" and "Delete", the field records are matched on
 	 */
 	externalId?: string;
+
+	/**
+	 * Optional: Most records to migrate for this object, added to the query as LIMIT.
+	 * Without it every record the query returns is migrated.
+	 */
+	maxRecords?: number;
+
+	/**
+	 * Optional: Source field -> target field, for fields named differently in the target org
+	 */
+	fieldMap?: Record<string, string>;
+
+	/**
+	 * Optional: Target field -> value written to every record, replacing the source value
+	 */
+	constants?: Record<string, FieldValue>;
+
+	/**
+	 * Optional: Source field -> source value -> target value, e.g. picklist translations
+	 * such as { "Industry": { "Tech": "Technology" } }
+	 */
+	valueMap?: Record<string, Record<string, FieldValue>>;
+
+	/**
+	 * Optional: Source fields left out of the migration, e.g. to trim FIELDS(ALL)
+	 */
+	exclude?: string[];
+
+	/**
+	 * Optional: Source field -> faker token that replaces its values, e.g. { "Email": "#{faker.internet.email}" }
+	 * Overrides the plan's maskProfile for that field
+	 */
+	mask?: Record<string, string>;
 }
 
+
+// --json result of `seeder plan run`
+export type SeederPlanRunResult = {
+	runId?: string; // Absent on dry runs
+	manifest?: string; // Path of the run manifest
+	dryRun: boolean;
+	seed?: number;
+	failures?: string; // Path of the failure report, when records failed
+	steps: SeederPlanRunStepResult[];
+};
+
+export type SeederPlanRunStepResult = {
+	step: number; // 1-based position of the step in the plan
+	sobject: string;
+	ref?: string;
+	requested: number; // Records built for the step
+	inserted: number;
+	failed: number;
+	ids: string[]; // IDs of the inserted records
+	errors: string[]; // One message per failed record
+	records?: Array<Record<string, FieldValue>>; // Generated records, on dry runs only
+};
+
+// --json result of `seeder plan validate`
+export type SeederPlanValidateResult = {
+	valid: boolean;
+	steps: number; // Steps in the plan after includes are resolved
+	diagnostics: string[];
+};
+
+// --json result of `seeder plan generate`
+export type SeederPlanGenerateResult = {
+	path: string;
+	plan: SeedingStep[];
+};
+
+// --json result of `seeder plan schema`
+export type SeederPlanSchemaResult = {
+	type: 'seeding' | 'migration';
+	path?: string; // Set when the schema was written with --output
+	schema: Record<string, unknown>;
+};
+
+// --json result of `seeder plan rollback`
+export type SeederPlanRollbackResult = {
+	runId: string;
+	manifest: string;
+	deleted: number;
+};
+
+// --json result of `seeder plan retry`
+export type SeederPlanRetryResult = {
+	runId: string;
+	failures: string; // Path of the failure report, rewritten with the records that still fail
+	retried: number;
+	inserted: number;
+	failed: number;
+	ids: string[];
+};
+
+// --json result of `seeder data migrate`
+export type SeederDataMigrateResult = {
+	dryRun: boolean;
+	failures?: string; // Path of the failure report, when records failed
+	preview?: string; // Path of the preview report, on dry runs only
+	idMap: string; // Path of the ID map store the mappings were added to, or read from on dry runs
+	objects: SeederDataMigrateObjectResult[];
+};
+
+export type SeederDataMigrateObjectResult = {
+	sobject: string;
+	operation: MigrationOperation;
+	retrieved: number;
+	succeeded: number;
+	failed: number;
+	idMap: Record<string, string>; // Source record ID -> target record ID
+	failures: Array<{ sourceId: string; errors: string[] }>;
+	preview?: Record<MigrationPreviewAction, number>; // Records per action, on dry runs only
+};
+
+// --json result of `seeder data export`
+export type SeederDataExportResult = {
+	bundle: string; // Path of the bundle directory
+	objects: DataBundleObject[];
+};
+
+// --json result of `seeder data import`
+export type SeederDataImportResult = SeederDataMigrateResult & {
+	bundle: string;
+};
+
+// --json result of `seeder data retry`
+export type SeederDataRetryResult = {
+	runId: string;
+	failures: string; // Path of the failure report, rewritten with the records that still fail
+	retried: number;
+	succeeded: number;
+	failed: number;
+	idMap: Record<string, string>; // Source ID -> target ID of the records written by the retry
+};
+
+// --json result of `seeder data idmap`
+export type SeederDataIdMapResult = {
+	idMap: string; // Path of the ID map store
+	sourceOrg: string;
+	targetOrg: string;
+	updatedAt?: string; // Absent when no migration has been recorded yet
+	objects: Array<{ sobject: string; mapped: number }>;
+	output?: string; // File the map was exported to
+	cleared: boolean;
+};
@@ -0,0 +1,169 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { DescribeSObjectResult } from '@jsforce/jsforce-node';
+import { DataBundle, DataBundleFormat, FieldValue } from '../types/index.js';
+import { toCsvCell } from './failures.js';
+import { MigrationSource, QueryPage } from './source.js';
+
+export const BUNDLE_FILE = 'bundle.json';
+
+export const BUNDLE_FORMATS = ['json', 'csv'] as const;
+
+const NUMBER_TYPES = new Set(['int', 'double', 'currency', 'percent', 'long']);
+
+type BundleRecord = Record<string, FieldValue>;
+
+function describePath(dir: string, sobject: string): string {
+  return path.join(dir, 'describes', `${sobject}.json`);
+}
+
+// Drops the `attributes` of a queried record and of the parent records nested in it
+export function stripAttributes(record: BundleRecord): BundleRecord {
+  return Object.fromEntries(
+    Object.entries(record)
+      .filter(([field]) => field !== 'attributes')
+      .map(([field, value]) => [
+        field,
+        value !== null && typeof value === 'object'
+          ? (stripAttributes(value as BundleRecord) as unknown as FieldValue)
+          : value,
+      ])
+  );
+}
+
+// Parent records become `Relationship.Field` columns, e.g. Account.External_Id__c
+function flatten(record: BundleRecord, prefix = ''): Record<string, FieldValue> {
+  return Object.fromEntries(
+    Object.entries(record).flatMap(([field, value]) =>
+      value !== null && typeof value === 'object'
+        ? Object.entries(flatten(value as BundleRecord, `${prefix}${field}.`))
+        : [[`${prefix}${field}`, value]]
+    )
+  );
+}
+
+function toCsv(records: BundleRecord[]): string {
+  const rows = records.map((record) => flatten(record));
+  const header = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const lines = [header, ...rows.map((row) => header.map((column) => row[column]))];
+  return lines.map((line) => line.map(toCsvCell).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Splits CSV text into rows of cells, with quoted cells holding commas, quotes and line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else cell += char;
+  }
+
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows;
+}
+
+/**
+ * Turns CSV rows back into records: blank cells are null, numbers and checkboxes get their
+ * type back from the describe, and `Relationship.Field` columns become parent records again.
+ */
+function fromCsv(text: string, describe: DescribeSObjectResult): BundleRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  const types = new Map(describe.fields.map((f) => [f.name, f.type]));
+
+  const typed = (column: string, cell: string): FieldValue => {
+    if (cell === '') return null;
+    const type = types.get(column);
+    if (type === 'boolean') return cell === 'true';
+    return type && NUMBER_TYPES.has(type) ? Number(cell) : cell;
+  };
+
+  return rows.map((cells) => {
+    const record: Record<string, unknown> = {};
+    header.forEach((column, index) => {
+      const [relationshipName, parentField] = column.split('.');
+      const value = typed(column, cells[index] ?? '');
+      if (parentField === undefined) record[column] = value;
+      else record[relationshipName] = { ...(record[relationshipName] as object), [parentField]: value };
+    });
+    return record as BundleRecord;
+  });
+}
+
+export function writeBundleRecords(dir: string, file: string, records: BundleRecord[], format: DataBundleFormat): void {
+  const filePath = path.join(dir, file);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, format === 'csv' ? toCsv(records) : JSON.stringify(records, null, 2) + '\n');
+}
+
+// Writes the bundle file with the describe of every object its records need
+export function writeBundle(dir: string, bundle: DataBundle, describes: Record<string, DescribeSObjectResult>): void {
+  fs.mkdirSync(path.join(dir, 'describes'), { recursive: true });
+  for (const [sobject, describe] of Object.entries(describes)) {
+    fs.writeFileSync(describePath(dir, sobject), JSON.stringify(describe, null, 2) + '\n');
+  }
+  fs.writeFileSync(path.join(dir, BUNDLE_FILE), JSON.stringify(bundle, null, 2) + '\n');
+}
+
+export function readBundle(dir: string): DataBundle {
+  const filePath = path.join(dir, BUNDLE_FILE);
+  if (!fs.existsSync(filePath)) throw new Error(`${dir} is not a data bundle: ${BUNDLE_FILE} not found.`);
+
+  const bundle = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as DataBundle;
+  if (!bundle || typeof bundle.sourceOrg !== 'string' || !Array.isArray(bundle.objects) || !bundle.plan) {
+    throw new Error(`Invalid data bundle: ${filePath}`);
+  }
+  return bundle;
+}
+
+/**
+ * Reads a bundle as if it were the source org. A query is answered with the records that
+ * were exported with the same query, so the bundle must be imported with its own plan.
+ */
+export function bundleSource(dir: string, bundle: DataBundle): MigrationSource {
+  const describe = (sobject: string): Promise<DescribeSObjectResult> => {
+    const filePath = describePath(dir, sobject);
+    if (!fs.existsSync(filePath)) {
+      return Promise.reject(new Error(`Data bundle ${dir} has no describe of ${sobject}.`));
+    }
+    return Promise.resolve(JSON.parse(fs.readFileSync(filePath, 'utf-8')) as DescribeSObjectResult);
+  };
+
+  return {
+    describe,
+    async *query(soql): AsyncGenerator<QueryPage> {
+      const object = bundle.objects.find((o) => o.query === soql);
+      if (!object) throw new Error(`Data bundle ${dir} has no records for ${soql}`);
+
+      const text = fs.readFileSync(path.join(dir, object.file), 'utf-8');
+      const records =
+        bundle.format === 'csv' ? fromCsv(text, await describe(object.sobject)) : (JSON.parse(text) as BundleRecord[]);
+      yield { records, totalSize: records.length };
+    },
+  };
+}
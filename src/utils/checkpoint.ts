@@ -0,0 +1,42 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { RunCheckpoint, SeedingStep } from '../types/index.js';
+
+// The checkpoint sits next to the run manifest, e.g. runs/<runId>.checkpoint.json
+export function checkpointPathFor(manifestPath: string): string {
+  return path.join(
+    path.dirname(manifestPath),
+    `${path.basename(manifestPath, path.extname(manifestPath))}.checkpoint.json`
+  );
+}
+
+// Steps are hashed after variables are resolved, so different --var values count as a different plan
+export function hashPlanSteps(steps: SeedingStep[]): string {
+  return createHash('sha256').update(JSON.stringify(steps)).digest('hex');
+}
+
+export function writeCheckpoint(filePath: string, checkpoint: RunCheckpoint): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(checkpoint, null, 2));
+}
+
+export function readCheckpoint(filePath: string): RunCheckpoint {
+  let checkpoint: RunCheckpoint;
+  try {
+    checkpoint = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as RunCheckpoint;
+  } catch (error) {
+    throw new Error(`Invalid checkpoint ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!checkpoint || !Array.isArray(checkpoint.completedSteps) || typeof checkpoint.references !== 'object') {
+    throw new Error(`Invalid checkpoint: ${filePath}`);
+  }
+  return checkpoint;
+}
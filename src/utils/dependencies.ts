@@ -0,0 +1,40 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+export type DependencyNode = {
+  sobject: string;
+  parents: string[]; // Objects its lookups point to
+};
+
+/**
+ * Orders nodes so that every object comes after the objects it looks up, keeping the given
+ * order where there is no dependency. A cycle is broken at its node that comes first in the
+ * given order. Returns the node indexes in their new order.
+ */
+export function orderByDependencies(nodes: DependencyNode[]): number[] {
+  const remaining = nodes.map((_, index) => index);
+  const done = new Set<string>();
+  const order: number[] = [];
+
+  // A parent only has to wait for nodes of another object; lookups to itself never block
+  const isReady = (index: number): boolean =>
+    nodes[index].parents.every(
+      (parent) =>
+        parent === nodes[index].sobject ||
+        done.has(parent) ||
+        !remaining.some((other) => other !== index && nodes[other].sobject === parent)
+    );
+
+  while (remaining.length) {
+    const next = remaining.find(isReady) ?? remaining[0];
+    remaining.splice(remaining.indexOf(next), 1);
+    order.push(next);
+    if (!remaining.some((index) => nodes[index].sobject === nodes[next].sobject)) done.add(nodes[next].sobject);
+  }
+
+  return order;
+}
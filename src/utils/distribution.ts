@@ -0,0 +1,134 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { faker } from '@faker-js/faker';
+import JSON5 from 'json5';
+import { FieldValue } from '../types/index.js';
+
+export type DistributionExpression =
+  | { kind: 'pick'; values: FieldValue[]; weights: number[] }
+  | { kind: 'range'; min: number; max: number; decimals?: number }
+  | { kind: 'pickBy'; controller: string; options: Record<string, FieldValue[]> };
+
+const DISTRIBUTION_PATTERN = /^(pick|pickBy|range)\s*\(([\s\S]*)\)$/;
+
+function isFieldValue(value: unknown): value is FieldValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * Parses the body of a `#{pick(values, weights?)}`, `#{range(min, max, decimals?)}` or
+ * `#{pickBy("ControllingField", { controllingValue: values })}` token. Arguments are
+ * JSON5. Returns null for other tokens and throws when malformed.
+ */
+export function parseDistributionExpression(expression: string): DistributionExpression | null {
+  const match = DISTRIBUTION_PATTERN.exec(expression.trim());
+  if (!match) return null;
+
+  const [, kind, rawArgs] = match;
+  let args: unknown[];
+  try {
+    args = JSON5.parse<unknown[]>(`[${rawArgs}]`);
+  } catch (error) {
+    throw new Error(`Arguments of ${kind}() are not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (kind === 'pickBy') return parsePickByArgs(args);
+  return kind === 'pick' ? parsePickArgs(args) : parseRangeArgs(args);
+}
+
+function parsePickByArgs(args: unknown[]): DistributionExpression {
+  const [controller, options, ...rest] = args;
+  if (
+    typeof controller !== 'string' ||
+    !controller ||
+    !options ||
+    typeof options !== 'object' ||
+    Array.isArray(options) ||
+    rest.length
+  ) {
+    throw new Error('pickBy() expects a controlling field name and an object of controlling values to value arrays');
+  }
+
+  for (const values of Object.values(options)) {
+    if (!Array.isArray(values) || !values.every(isFieldValue)) {
+      throw new Error('pickBy() options must map each controlling value to an array of values');
+    }
+  }
+
+  return { kind: 'pickBy', controller, options: options as Record<string, FieldValue[]> };
+}
+
+function parsePickArgs(args: unknown[]): DistributionExpression {
+  const [values, weights, ...rest] = args;
+  if (!Array.isArray(values) || !values.length || !values.every(isFieldValue) || rest.length) {
+    throw new Error('pick() expects a non-empty array of values and an optional array of weights');
+  }
+
+  if (weights === undefined) {
+    return { kind: 'pick', values, weights: values.map(() => 1) };
+  }
+
+  if (
+    !Array.isArray(weights) ||
+    weights.length !== values.length ||
+    !weights.every((w) => typeof w === 'number' && w >= 0)
+  ) {
+    throw new Error('pick() weights must be non-negative numbers, one per value');
+  }
+  if (!(weights as number[]).some((w) => w > 0)) {
+    throw new Error('pick() needs at least one weight greater than 0');
+  }
+
+  return { kind: 'pick', values, weights: weights as number[] };
+}
+
+function parseRangeArgs(args: unknown[]): DistributionExpression {
+  const [min, max, decimals, ...rest] = args;
+  if (typeof min !== 'number' || typeof max !== 'number' || min > max || rest.length) {
+    throw new Error('range() expects a minimum and a maximum number, with the minimum not above the maximum');
+  }
+  if (decimals !== undefined && (typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0)) {
+    throw new Error('range() decimals must be a non-negative integer');
+  }
+  if (decimals === undefined && Math.ceil(min) > Math.floor(max)) {
+    throw new Error('range() without decimals needs a whole number between the minimum and the maximum');
+  }
+
+  return { kind: 'range', min, max, decimals };
+}
+
+/**
+ * Draws a value from the shared faker instance, so distributions follow the run's seed.
+ * `pickBy` reads its controlling field from the record being built.
+ */
+export function resolveDistribution(
+  expression: DistributionExpression,
+  record: Record<string, FieldValue>
+): FieldValue {
+  if (expression.kind === 'pickBy') {
+    const controllerValue = record[expression.controller];
+    const values = controllerValue === null ? [] : expression.options[String(controllerValue)] ?? [];
+    return values.length ? faker.helpers.arrayElement(values) : null;
+  }
+
+  if (expression.kind === 'pick') {
+    return faker.helpers.weightedArrayElement(
+      expression.values.map((value, i) => ({ value, weight: expression.weights[i] })).filter((v) => v.weight > 0)
+    );
+  }
+
+  if (expression.decimals === undefined) {
+    return faker.number.int({ min: Math.ceil(expression.min), max: Math.floor(expression.max) });
+  }
+
+  return faker.number.float({ min: expression.min, max: expression.max, fractionDigits: expression.decimals });
+}
+
+export function rollNull(nullRate: number | undefined): boolean {
+  if (!nullRate) return false;
+  return faker.datatype.boolean({ probability: nullRate });
+}
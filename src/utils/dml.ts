@@ -0,0 +1,261 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Connection, Messages } from '@salesforce/core';
+import { Flags } from '@salesforce/sf-plugins-core';
+import { Bulk } from '@jsforce/jsforce-node/lib/api/bulk.js';
+import { FieldValue, MigrationOperation } from '../types/index.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@ravi004/sf-seeder', 'seeder.data.dml');
+
+/**
+ * API used to write records:
+ * - rest: sObject Collections, up to 200 records per request
+ * - bulk: Bulk API 1.0, up to 10,000 records per batch
+ * - bulk2: Bulk API 2.0, one job per batch
+ * - auto: rest for up to 200 records, bulk up to 10,000, bulk2 above
+ */
+export type DmlApi = 'rest' | 'bulk' | 'bulk2' | 'auto';
+
+export type DmlOperation = 'insert' | 'upsert' | 'update' | 'delete'; // update and delete match records on their Id
+
+export type ConcurrencyMode = 'Serial' | 'Parallel';
+
+export type DmlOptions = {
+  api: DmlApi;
+  batchSize?: number; // Records per request, batch or job; defaults to the API maximum
+  concurrencyMode?: ConcurrencyMode; // Whether batches run one at a time or up to MAX_PARALLEL_BATCHES at once, Parallel by default
+  pollTimeout?: number; // Seconds to wait for a bulk job to finish
+  externalId?: string; // Field to match records on for upsert
+};
+
+// Outcome of one record, in the order the records were sent
+export type DmlResult = {
+  id?: string;
+  success: boolean;
+  errors: unknown[];
+};
+
+export const DML_APIS = ['rest', 'bulk', 'bulk2', 'auto'] as const;
+
+// Flags choosing how `seeder data migrate` and `seeder data import` write records
+export const MIGRATION_DML_FLAGS = {
+  api: Flags.option({
+    summary: messages.getMessage('flags.api.summary'),
+    description: messages.getMessage('flags.api.description'),
+    options: DML_APIS,
+    default: 'rest',
+  })(),
+  'batch-size': Flags.integer({
+    summary: messages.getMessage('flags.batch-size.summary'),
+  }),
+  'concurrency-mode': Flags.option({
+    summary: messages.getMessage('flags.concurrency-mode.summary'),
+    options: ['Serial', 'Parallel'] as const,
+  })(),
+  'poll-timeout': Flags.integer({
+    summary: messages.getMessage('flags.poll-timeout.summary'),
+  }),
+};
+
+export function dmlOptionsFromFlags(flags: {
+  api: DmlApi;
+  'batch-size'?: number;
+  'concurrency-mode'?: ConcurrencyMode;
+  'poll-timeout'?: number;
+}): DmlOptions {
+  return {
+    api: flags.api,
+    batchSize: flags['batch-size'],
+    concurrencyMode: flags['concurrency-mode'],
+    pollTimeout: flags['poll-timeout'],
+  };
+}
+
+// DML operation behind each migration plan operation
+export const MIGRATION_DML_OPERATIONS: Record<MigrationOperation, DmlOperation> = {
+  Insert: 'insert',
+  Upsert: 'upsert',
+  Update: 'update',
+  Delete: 'delete',
+};
+
+const MAX_BATCH_SIZE: Record<Exclude<DmlApi, 'auto'>, number> = {
+  rest: 200,
+  bulk: 10_000,
+  bulk2: Number.MAX_SAFE_INTEGER,
+};
+
+// Batches in flight at once in Parallel mode, which keeps large writes within the org's API
+// concurrency limits and holds only a few batches' responses in memory
+export const MAX_PARALLEL_BATCHES = 5;
+
+// Bulk API 2.0 writes null as #N/A; blank and #N/A both mean an empty value
+const BULK2_NULL_VALUES = new Set(['', '#N/A']);
+
+export function pickDmlApi(api: DmlApi, count: number): Exclude<DmlApi, 'auto'> {
+  if (api !== 'auto') return api;
+  if (count <= MAX_BATCH_SIZE.rest) return 'rest';
+  return count <= MAX_BATCH_SIZE.bulk ? 'bulk' : 'bulk2';
+}
+
+/**
+ * Checks --batch-size and --poll-timeout. With `auto` a batch size above the limit of the
+ * picked API is lowered to it.
+ */
+export function checkDmlOptions(options: DmlOptions): void {
+  const { api, batchSize, pollTimeout } = options;
+  if (batchSize !== undefined && batchSize < 1) throw new Error('--batch-size must be at least 1.');
+  if (pollTimeout !== undefined && pollTimeout < 1) throw new Error('--poll-timeout must be at least 1 second.');
+  if (batchSize !== undefined && api !== 'auto' && batchSize > MAX_BATCH_SIZE[api]) {
+    throw new Error(`--batch-size can be at most ${MAX_BATCH_SIZE[api]} with --api ${api}.`);
+  }
+}
+
+function toBatches(records: Array<Record<string, FieldValue>>, size: number): Array<Array<Record<string, FieldValue>>> {
+  const batches: Array<Array<Record<string, FieldValue>>> = [];
+  for (let i = 0; i < records.length; i += size) batches.push(records.slice(i, i + size));
+  return batches;
+}
+
+/**
+ * Records link to a parent by external ID with a `Relationship.Field` key, which the Bulk
+ * APIs take as a column header but REST expects as a nested object.
+ */
+function toRestRecord(record: Record<string, FieldValue>): Record<string, unknown> {
+  const rest: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(record)) {
+    const [relationshipName, parentField] = field.split('.');
+    if (parentField === undefined) rest[field] = value;
+    else rest[relationshipName] = { ...(rest[relationshipName] as object), [parentField]: value };
+  }
+
+  return rest;
+}
+
+async function restDml(
+  conn: Connection,
+  sobject: string,
+  operation: DmlOperation,
+  records: Array<Record<string, FieldValue>>,
+  options: DmlOptions
+): Promise<DmlResult[]> {
+  const payloads = records.map(toRestRecord);
+  const write = {
+    insert: () => conn.insert(sobject, payloads),
+    upsert: () => conn.upsert(sobject, payloads, options.externalId ?? 'Id'),
+    update: () => conn.update(sobject, payloads as Array<Record<string, unknown> & { Id: string }>),
+    delete: () =>
+      conn.destroy(
+        sobject,
+        records.map((record) => record.Id as string)
+      ),
+  }[operation];
+  const results = await write();
+
+  return results.map((r) => ({ id: r.id, success: r.success, errors: r.errors ?? [] }));
+}
+
+async function bulkDml(
+  conn: Connection,
+  sobject: string,
+  operation: DmlOperation,
+  records: Array<Record<string, FieldValue>>,
+  options: DmlOptions
+): Promise<DmlResult[]> {
+  // A client of its own, so the poll timeout of one call never changes conn.bulk for others
+  const bulk = options.pollTimeout ? new Bulk(conn) : conn.bulk;
+  if (options.pollTimeout) bulk.pollTimeout = options.pollTimeout * 1000;
+
+  const results = await bulk.load(
+    sobject,
+    operation,
+    {
+      ...(options.externalId ? { extIdField: options.externalId } : {}),
+      ...(options.concurrencyMode ? { concurrencyMode: options.concurrencyMode } : {}),
+    },
+    records
+  );
+
+  return results.map((r) => ({ id: r.id ?? undefined, success: r.success, errors: r.errors ?? [] }));
+}
+
+function bulk2Key(columns: string[], row: Record<string, unknown>): string {
+  return JSON.stringify(
+    columns.map((column) => {
+      const value = row[column];
+      const text = value === null || value === undefined ? '' : String(value);
+      return BULK2_NULL_VALUES.has(text) ? '' : text;
+    })
+  );
+}
+
+/**
+ * Bulk API 2.0 does not return results in upload order, so each result is matched back
+ * to the record it came from by the uploaded column values it echoes.
+ */
+async function bulk2Dml(
+  conn: Connection,
+  sobject: string,
+  operation: DmlOperation,
+  records: Array<Record<string, FieldValue>>,
+  options: DmlOptions
+): Promise<DmlResult[]> {
+  const { successfulResults, failedResults } = await conn.bulk2.loadAndWaitForResults({
+    object: sobject,
+    operation,
+    input: records,
+    ...(options.externalId ? { externalIdFieldName: options.externalId } : {}),
+    ...(options.pollTimeout ? { pollTimeout: options.pollTimeout * 1000 } : {}),
+  });
+
+  const columns = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  const pending = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    const key = bulk2Key(columns, record);
+    pending.set(key, [...(pending.get(key) ?? []), index]);
+  });
+
+  const results: DmlResult[] = records.map(() => ({ success: false, errors: ['Record was not processed'] }));
+  const place = (row: Record<string, unknown>, result: DmlResult): void => {
+    const index = pending.get(bulk2Key(columns, row))?.shift();
+    if (index !== undefined) results[index] = result;
+  };
+
+  successfulResults.forEach((row) => place(row, { id: row.sf__Id, success: true, errors: [] }));
+  failedResults.forEach((row) => place(row, { success: false, errors: [row.sf__Error] }));
+
+  return results;
+}
+
+/**
+ * Inserts, upserts, updates or deletes records with the chosen API, split into batches of `batchSize`.
+ * Results are returned in the order of `records`.
+ */
+export async function executeDml(
+  conn: Connection,
+  sobject: string,
+  operation: DmlOperation,
+  records: Array<Record<string, FieldValue>>,
+  options: DmlOptions
+): Promise<DmlResult[]> {
+  const api = pickDmlApi(options.api, records.length);
+  const size = Math.min(options.batchSize ?? MAX_BATCH_SIZE[api], MAX_BATCH_SIZE[api]);
+  const write = { rest: restDml, bulk: bulkDml, bulk2: bulk2Dml }[api];
+  const batches = toBatches(records, size);
+
+  const inFlight = options.concurrencyMode === 'Serial' ? 1 : MAX_PARALLEL_BATCHES;
+  const results: DmlResult[] = [];
+  for (let i = 0; i < batches.length; i += inFlight) {
+    // eslint-disable-next-line no-await-in-loop
+    const chunk = await Promise.all(
+      batches.slice(i, i + inFlight).map((batch) => write(conn, sobject, operation, batch, options))
+    );
+    results.push(...chunk.flat());
+  }
+  return results;
+}
@@ -0,0 +1,161 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  FailureError,
+  FieldValue,
+  IdMapStore,
+  MigrationFailure,
+  MigrationFailureReport,
+  SeedingFailure,
+  SeedingFailureReport,
+} from '../types/index.js';
+import { createRunId } from './manifest.js';
+
+export const DEFAULT_FAILURES_DIR = path.join('.sf-seeder', 'failures');
+
+// Bulk API errors are strings such as "REQUIRED_FIELD_MISSING:Required fields are missing: [Name]:Name --"
+const BULK_ERROR_PATTERN = /^([A-Z][A-Z0-9_]*):([\s\S]*)$/;
+
+export function defaultFailureReportPath(runId: string): string {
+  return path.resolve(DEFAULT_FAILURES_DIR, `${runId}.json`);
+}
+
+// The CSV copy sits next to the JSON report, e.g. failures/<runId>.csv
+export function failureCsvPath(reportPath: string): string {
+  return path.join(path.dirname(reportPath), `${path.basename(reportPath, path.extname(reportPath))}.csv`);
+}
+
+/**
+ * Normalizes the errors of a failed save result, whether Bulk API strings or
+ * REST `{ errorCode, message }` objects.
+ */
+export function parseSaveErrors(errors: unknown): FailureError[] {
+  const list = Array.isArray(errors) ? (errors as unknown[]) : errors ? [errors] : [];
+  if (!list.length) return [{ message: 'Unknown error' }];
+
+  return list.map((error) => {
+    if (typeof error === 'string') {
+      const match = BULK_ERROR_PATTERN.exec(error);
+      return match ? { code: match[1], message: match[2].trim() } : { message: error };
+    }
+
+    const { errorCode, statusCode, message } = (error ?? {}) as Record<string, unknown>;
+    const code = errorCode ?? statusCode;
+    return {
+      ...(typeof code === 'string' ? { code } : {}),
+      message: typeof message === 'string' ? message : JSON.stringify(error),
+    };
+  });
+}
+
+export function formatFailureErrors(errors: FailureError[]): string {
+  return errors.map((e) => (e.code ? `${e.code}: ${e.message}` : e.message)).join(', ');
+}
+
+export function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(failures: Array<SeedingFailure | MigrationFailure>): string {
+  const payloadFields = [...new Set(failures.flatMap((f) => Object.keys(f.payload)))];
+  const header = ['step', 'sobject', 'ref', 'sourceId', 'errorCodes', 'errors', ...payloadFields];
+
+  const rows = failures.map((failure) => {
+    const payload: Record<string, FieldValue> = failure.payload;
+    return [
+      failure.step,
+      failure.sobject,
+      'ref' in failure ? failure.ref : undefined,
+      'sourceId' in failure ? failure.sourceId : undefined,
+      failure.errors
+        .map((e) => e.code)
+        .filter(Boolean)
+        .join(';'),
+      formatFailureErrors(failure.errors),
+      ...payloadFields.map((field) => payload[field]),
+    ];
+  });
+
+  return [header, ...rows].map((row) => row.map(toCsvCell).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Writes the JSON report `seeder plan retry` and `seeder data retry` read, plus a
+ * CSV copy with one row per failed record for reviewing in a spreadsheet.
+ * Returns the path of the CSV copy.
+ */
+export function writeFailureReport(filePath: string, report: SeedingFailureReport | MigrationFailureReport): string {
+  const csvPath = failureCsvPath(filePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(report, null, 2));
+  fs.writeFileSync(csvPath, toCsv(report.failures));
+  return csvPath;
+}
+
+// What `seeder data migrate` and `seeder data import` record in their failure report
+export type MigrationFailureReportOptions = {
+  createdAt: string;
+  org: string; // Username of the target org
+  sourceOrg: string; // Org ID
+  idMapStore: { path: string; store: IdMapStore };
+  path?: string; // --failures, else the default path of the run
+};
+
+/**
+ * Writes the failure report of a migration or import when records failed, and returns its path.
+ */
+export function writeMigrationFailures(
+  failures: MigrationFailure[],
+  options: MigrationFailureReportOptions,
+  logger: { log: (message: string) => void; warn: (message: string) => void }
+): string | undefined {
+  if (!failures.length) return undefined;
+
+  const runId = createRunId(options.createdAt);
+  const failuresPath = options.path ? path.resolve(options.path) : defaultFailureReportPath(runId);
+  const csvPath = writeFailureReport(failuresPath, {
+    kind: 'migration',
+    runId,
+    org: options.org,
+    createdAt: options.createdAt,
+    idMap: options.idMapStore.store.idMap,
+    idMapStore: options.idMapStore.path,
+    sourceOrg: options.sourceOrg,
+    failures,
+  });
+  logger.warn(`${failures.length} record(s) failed. Failure report saved to ${failuresPath} and ${csvPath}`);
+  logger.log(`Fix the data or org configuration, then run: sf seeder data retry --failures ${failuresPath}`);
+  return failuresPath;
+}
+
+export function readFailureReport(filePath: string, kind: 'seeding'): SeedingFailureReport;
+export function readFailureReport(filePath: string, kind: 'migration'): MigrationFailureReport;
+export function readFailureReport(
+  filePath: string,
+  kind: 'seeding' | 'migration'
+): SeedingFailureReport | MigrationFailureReport {
+  let report: SeedingFailureReport | MigrationFailureReport;
+  try {
+    report = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SeedingFailureReport | MigrationFailureReport;
+  } catch (error) {
+    throw new Error(`Invalid failure report ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!report || !Array.isArray(report.failures)) {
+    throw new Error(`Invalid failure report: ${filePath}`);
+  }
+  if (report.kind !== kind) {
+    const command = report.kind === 'migration' ? 'sf seeder data retry' : 'sf seeder plan retry';
+    throw new Error(`${filePath} is a ${String(report.kind)} failure report. Retry it with ${command}.`);
+  }
+
+  return report;
+}
@@ -4,64 +4,187 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { faker } from '@faker-js/faker';
-import inquirer from 'inquirer';
+import { createHash } from 'node:crypto';
+import { base, en, faker, Faker } from '@faker-js/faker';
+import JSON5 from 'json5';
 import { Field } from 'jsforce';
+import { FieldValue } from '../types/index.js';
+import { buildPicklistExpression, PicklistOption } from './picklist.js';
 
-export function resolveFakerExpression(value: string, warn: (msg: string) => void): string | number | null {
+// Dates are generated relative to this when a seed is set, so output does not drift with the clock.
+const SEEDED_REF_DATE = '2025-01-01T00:00:00.000Z';
+
+/**
+ * Seeds the shared faker instance. Faker values and reference selection both
+ * draw from it, so the same plan and seed always produce the same data.
+ */
+export function seedFaker(seed: number): void {
+  faker.seed(seed);
+  faker.setDefaultRefDate(SEEDED_REF_DATE);
+}
+
+export function pickRandom<T>(items: T[]): T {
+  return faker.helpers.arrayElement(items);
+}
+
+export type FakerExpression = {
+  path: string[]; // Module and method, e.g. ['number', 'int']
+  args: unknown[]; // Parsed call arguments, empty when none were given
+  argsText: string; // Arguments as written, including parentheses ('' when none)
+};
+
+const FAKER_EXPRESSION_PATTERN = /^([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*(\(([\s\S]*)\))?$/;
+
+// Used to try out arguments during validation without consuming the seeded instance.
+const validationFaker = new Faker({ locale: [en, base] });
+
+// Masking draws from its own instance, reseeded for every value, so it never shifts seeded plan output.
+const maskingFaker = new Faker({ locale: [en, base] });
+maskingFaker.setDefaultRefDate(SEEDED_REF_DATE);
+
+/**
+ * Parses `#{faker.<path>}` or `#{faker.<path>(<args>)}`. Arguments are JSON5,
+ * so `#{faker.number.int({ min: 1, max: 100 })}` works as written.
+ * Returns null when the value is not a faker token and throws when it is malformed.
+ */
+export function parseFakerExpression(value: string): FakerExpression | null {
   if (!value.startsWith('#{faker.') || !value.endsWith('}')) return null;
 
-  try {
-    const expression = value.slice(8, -1); // Remove #{faker. and trailing }
-    const parts = expression.split('.');
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
-    let result: any = faker as any;
-    for (const part of parts) {
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-      if (typeof result[part] === 'function') {
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
-        result = result[part]();
-      } else {
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
-        result = result[part];
-      }
-      if (result === undefined || result === null) {
-        warn(`Invalid faker path: ${expression}`);
-        return null;
-      }
+  const expression = value.slice(8, -1).trim(); // Remove #{faker. and trailing }
+  const match = FAKER_EXPRESSION_PATTERN.exec(expression);
+  if (!match) {
+    throw new Error(`Malformed faker expression: ${expression}`);
+  }
+
+  const argsText = match[2] ?? '';
+  const rawArgs = match[3]?.trim() ?? '';
+  let args: unknown[] = [];
+  if (rawArgs) {
+    try {
+      args = JSON5.parse<unknown[]>(`[${rawArgs}]`);
+    } catch (error) {
+      throw new Error(`Arguments are not valid JSON: ${(error as Error).message}`);
     }
+  }
+
+  return { path: match[1].split('.'), args, argsText };
+}
+
+function invokeFakerExpression(instance: Faker, expression: FakerExpression): unknown {
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+  let result: any = instance as any;
+
+  for (const [index, part] of expression.path.entries()) {
+    const isLast = index === expression.path.length - 1;
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    const member = result[part];
+
+    if (typeof member === 'function') {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+      result = isLast ? member.apply(result, expression.args) : member.call(result);
+    } else if (isLast && expression.argsText) {
+      throw new Error(`faker.${expression.path.join('.')} is not a function and takes no arguments`);
+    } else {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      result = member;
+    }
+
+    if (result === undefined || result === null) {
+      throw new Error(`Invalid faker path: ${expression.path.join('.')}`);
+    }
+  }
+
+  return result;
+}
+
+export function resolveFakerExpression(value: string, warn: (msg: string) => void): string | number | null {
+  try {
+    const expression = parseFakerExpression(value);
+    if (!expression) return null;
+
+    const result = invokeFakerExpression(faker, expression);
 
     if (typeof result === 'string' || typeof result === 'number') {
       return result;
     }
 
+    if (result instanceof Date) {
+      return result.toISOString();
+    }
+
     return String(result);
   } catch (error) {
+    warn(`Could not resolve ${value}: ${(error as Error).message}`);
     return null;
   }
 }
 
-export function isValidFakerExpression(value: string): boolean {
-  if (!value.startsWith('#{faker.') || !value.endsWith('}')) return false;
+/**
+ * Replaces `source` with the value of a faker token, seeded from a hash of the token, the source
+ * value and `salt`. The same source value always masks to the same value, so duplicates and
+ * values matched across objects (e.g. emails) still match after masking. Empty values stay empty.
+ */
+export function maskWithFaker(value: string, source: FieldValue, salt: string): FieldValue {
+  if (source === null || source === '') return source;
+
+  const expression = parseFakerExpression(value);
+  if (!expression) throw new Error(`Mask ${value} is not a faker expression`);
 
+  const digest = createHash('sha256')
+    .update(`${salt}\0${value}\0${String(source)}`)
+    .digest();
+  maskingFaker.seed([0, 4, 8, 12].map((offset) => digest.readUInt32BE(offset)));
+
+  const result = invokeFakerExpression(maskingFaker, expression);
+  if (typeof result === 'string' || typeof result === 'number' || typeof result === 'boolean') return result;
+  return result instanceof Date ? result.toISOString() : String(result);
+}
+
+/**
+ * Returns why a faker expression cannot be used, or null when it is valid.
+ * Expressions with arguments are invoked once so faker can reject bad options.
+ */
+export function getFakerExpressionError(value: string): string | null {
+  let expression: FakerExpression | null;
   try {
-    const expression = value.slice(8, -1); // remove #{faker. and }
-    const parts = expression.split('.');
+    expression = parseFakerExpression(value);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  if (!expression) return 'Not a faker expression';
+
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+  let result: any = validationFaker as any;
 
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
-    let result: any = faker as any;
+  for (const part of expression.path) {
+    if (!result || typeof result !== 'object' || !(part in result)) {
+      return `Unknown faker method: faker.${expression.path.join('.')}`;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+    result = result[part];
+  }
 
-    for (const part of parts) {
-      if (!(part in result)) return false;
+  if (typeof result !== 'function') {
+    if (expression.argsText) return `faker.${expression.path.join('.')} is not a function and takes no arguments`;
+    return typeof result === 'string' || typeof result === 'number'
+      ? null
+      : `faker.${expression.path.join('.')} does not produce a value`;
+  }
 
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
-      result = result[part];
+  if (expression.argsText) {
+    try {
+      invokeFakerExpression(validationFaker, expression);
+    } catch (error) {
+      return `faker rejected the arguments: ${(error as Error).message}`;
     }
-    // If the final resolved thing is a function, it's usable
-    return typeof result === 'function' || typeof result === 'string' || typeof result === 'number';
-  } catch {
-    return false;
   }
+
+  return null;
+}
+
+export function isValidFakerExpression(value: string): boolean {
+  return getFakerExpressionError(value) === null;
 }
 
 function findClosestMatch(input: string, candidates: string[]): string | null {
@@ -104,11 +227,12 @@ function levenshteinDistance(a: string, b: string): number {
 }
 
 export function suggestFakerAlternative(value: string): string | null {
-  if (!value.startsWith('#{faker.') || !value.endsWith('}')) return null;
-
   try {
-    const expression = value.slice(8, -1); // 'internet.fakeMail'
-    const parts = expression.split('.');
+    const expression = parseFakerExpression(value); // path ['internet', 'fakeMail']
+    if (!expression) return null;
+
+    const parts = expression.path;
+    const argsText = expression.argsText;
 
     if (parts.length < 2) return null;
 
@@ -124,7 +248,7 @@ export function suggestFakerAlternative(value: string): string | null {
         // eslint-disable-next-line @typescript-eslint/no-unsafe-argument, @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access
         const validMethods = Object.keys((faker as any)[closestSection] ?? {});
         const closestMethod = findClosestMatch(rawMethod, validMethods);
-        return closestMethod ? `#{faker.${closestSection}.${closestMethod}}` : null;
+        return closestMethod ? `#{faker.${closestSection}.${closestMethod}${argsText}}` : null;
       }
       return null;
     }
@@ -133,7 +257,7 @@ export function suggestFakerAlternative(value: string): string | null {
     const validMethods = Object.keys(section);
     if (!validMethods.includes(rawMethod)) {
       const closestMethod = findClosestMatch(rawMethod, validMethods);
-      return closestMethod ? `#{faker.${rawSection}.${closestMethod}}` : null;
+      return closestMethod ? `#{faker.${rawSection}.${closestMethod}${argsText}}` : null;
     }
 
     return null;
@@ -142,10 +266,15 @@ export function suggestFakerAlternative(value: string): string | null {
   }
 }
 
+// Picks which of several referenced steps a lookup field points to
+export type ReferenceChooser = (field: Field, targets: string[]) => Promise<string>;
+
 export async function getFakerForField(
   sobject: string,
   field: Field,
-  includedObjects: string[]
+  referenceKeys: Map<string, string[]>, // SObject -> names its steps are referenced by
+  picklistOptions: PicklistOption[],
+  chooseReference: ReferenceChooser
 ): Promise<string | null> {
   switch (field.type) {
     case 'string':
@@ -169,28 +298,19 @@ export async function getFakerForField(
     case 'datetime':
       return '#{faker.date.recent}';
     case 'picklist':
-      if (field.picklistValues && field.picklistValues.length > 0) {
-        const firstValue = field.picklistValues[0].value;
-        return firstValue ? `${firstValue}` : null;
-      }
-      return null;
+      // Every valid value with equal weights, ready to be tuned in the plan
+      return buildPicklistExpression(picklistOptions, field.dependentPicklist ? field.controllerName : null);
     case 'reference':
       if (field.referenceTo) {
-        const availableRefs = field.referenceTo.filter((obj) => includedObjects.includes(obj) && obj !== sobject);
+        const availableRefs = field.referenceTo
+          .filter((obj) => obj !== sobject)
+          .flatMap((obj) => referenceKeys.get(obj) ?? []);
         // In above filter we avoid self relation objects
 
         if (availableRefs.length === 1) {
           return `@{${availableRefs[0]}.Id}`;
         } else if (availableRefs.length > 1) {
-          const result = await inquirer.prompt([
-            {
-              type: 'list',
-              name: 'selectedRef',
-              message: `Multiple reference targets for ${field.name} on ${sobject}. Choose one:`,
-              choices: availableRefs,
-            },
-          ]);
-          return `@{${result.selectedRef}.Id}`;
+          return `@{${await chooseReference(field, availableRefs)}.Id}`;
         }
       }
       return null;
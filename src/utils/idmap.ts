@@ -0,0 +1,57 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { IdMapStore } from '../types/index.js';
+
+export const DEFAULT_IDMAP_DIR = path.join('.sf-seeder', 'idmaps');
+
+// One store per source and target org pair, e.g. idmaps/00D...-00D....json
+export function defaultIdMapPath(sourceOrg: string, targetOrg: string): string {
+  return path.resolve(DEFAULT_IDMAP_DIR, `${sourceOrg}-${targetOrg}.json`);
+}
+
+/**
+ * Reads the ID map store of an org pair, or starts an empty one when the file does not
+ * exist yet. A store recorded for other orgs is refused, as its IDs would not match.
+ */
+export function readIdMapStore(filePath: string, sourceOrg: string, targetOrg: string): IdMapStore {
+  if (!fs.existsSync(filePath)) {
+    return { sourceOrg, targetOrg, updatedAt: new Date().toISOString(), idMap: {} };
+  }
+
+  const store = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as IdMapStore;
+  if (!store || typeof store.idMap !== 'object') {
+    throw new Error(`Invalid ID map store: ${filePath}`);
+  }
+  if (store.sourceOrg !== sourceOrg || store.targetOrg !== targetOrg) {
+    throw new Error(
+      `ID map store ${filePath} maps ${store.sourceOrg} to ${store.targetOrg}, not ${sourceOrg} to ${targetOrg}.`
+    );
+  }
+  return store;
+}
+
+export function writeIdMapStore(filePath: string, store: IdMapStore): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify({ ...store, updatedAt: new Date().toISOString() }, null, 2));
+}
+
+// Writes the map as JSON, or as sobject,sourceId,targetId rows when the file ends in .csv
+export function exportIdMap(filePath: string, idMap: IdMapStore['idMap']): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  if (path.extname(filePath).toLowerCase() !== '.csv') {
+    fs.writeFileSync(filePath, JSON.stringify(idMap, null, 2));
+    return;
+  }
+
+  const rows = Object.entries(idMap).flatMap(([sobject, ids]) =>
+    Object.entries(ids).map(([sourceId, targetId]) => [sobject, sourceId, targetId].join(','))
+  );
+  fs.writeFileSync(filePath, ['sobject,sourceId,targetId', ...rows].join('\n') + '\n');
+}
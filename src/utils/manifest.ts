@@ -0,0 +1,43 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { RunManifest } from '../types/index.js';
+
+export const DEFAULT_MANIFEST_DIR = path.join('.sf-seeder', 'runs');
+
+// Run ids are the start time, safe to use as a file name
+export function createRunId(createdAt: string): string {
+  return createdAt.replace(/[:.]/g, '-');
+}
+
+export function createRunManifest(org: string): RunManifest {
+  const createdAt = new Date().toISOString();
+  return {
+    runId: createRunId(createdAt),
+    org,
+    createdAt,
+    steps: [],
+  };
+}
+
+export function defaultManifestPath(manifest: RunManifest): string {
+  return path.resolve(DEFAULT_MANIFEST_DIR, `${manifest.runId}.json`);
+}
+
+export function writeRunManifest(filePath: string, manifest: RunManifest): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(manifest, null, 2));
+}
+
+export function readRunManifest(filePath: string): RunManifest {
+  const manifest = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as RunManifest;
+  if (!manifest || !Array.isArray(manifest.steps)) {
+    throw new Error(`Invalid run manifest: ${filePath}`);
+  }
+  return manifest;
+}
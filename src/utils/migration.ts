@@ -0,0 +1,1012 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { DescribeSObjectResult } from '@jsforce/jsforce-node';
+import { Connection } from '@salesforce/core';
+import {
+  FailureError,
+  FieldValue,
+  IdMapStore,
+  MigrationFailure,
+  MigrationObject,
+  MigrationOperation,
+  MigrationPlan,
+  MigrationPreviewObject,
+  MigrationPreviewRecord,
+  SeederDataMigrateObjectResult,
+} from '../types/index.js';
+import { DmlOptions, executeDml, MIGRATION_DML_OPERATIONS } from './dml.js';
+import { orderByDependencies } from './dependencies.js';
+import {
+  formatFailureErrors,
+  MigrationFailureReportOptions,
+  parseSaveErrors,
+  writeMigrationFailures,
+} from './failures.js';
+import { getFakerExpressionError, maskWithFaker } from './faker.js';
+import { writeIdMapStore } from './idmap.js';
+import { countPreviewActions, formatPreviewCounts } from './preview.js';
+import { buildSoql, capLimit, expandFieldsFunctions, parseSoql } from './soql.js';
+import { MigrationSource, queryPages } from './source.js';
+
+// Receives the progress messages of a migration, e.g. the command's log and warn
+export type MigrationLogger = {
+  log: (message: string) => void;
+  warn: (message: string) => void;
+};
+
+export type MigrationOptions = {
+  dmlOptions: DmlOptions;
+  maskSalt: string;
+};
+
+// A plan object with its query cleaned up and its lookups and mask rules worked out from the describe
+export type PreparedObject = {
+  obj: MigrationObject;
+  cleanedQuery: string;
+  keptFields: string[]; // Fields of the query that are migrated as they are
+  referenceFieldMap: Record<string, string[]>;
+  externalIdLookups: Record<string, string>;
+  lookupTargets: Record<string, string[]>; // Objects each lookup, by ID or external ID, points to
+  maskRules: Record<string, string>; // Source field -> faker token replacing its values
+  deferredFields: string[]; // Lookups set by the second pass
+};
+
+// A deferred lookup of one record, with the source org ID or external ID it points to
+type PendingLink = {
+  sourceId: string;
+  field: string;
+  value: FieldValue; // A source ID, or the parent's external ID value for an external ID lookup
+};
+
+// Progress wording of each operation, e.g. "Updating" and "Updated"
+const OPERATION_VERBS: Record<MigrationOperation, [string, string]> = {
+  Insert: ['Inserting', 'Inserted'],
+  Upsert: ['Upserting', 'Upserted'],
+  Update: ['Updating', 'Updated'],
+  Delete: ['Deleting', 'Deleted'],
+};
+
+// External ID values per query, which keeps the IN list well under the SOQL length limit
+const MATCH_BATCH_SIZE = 200;
+
+/**
+ * Replaces each queried parent record with its external ID as a `Relationship.Field` value,
+ * which is how the DML helpers link a record to its parent. The lookup ID is dropped so
+ * it does not conflict with the external ID.
+ */
+function withExternalIdLookups(
+  record: Record<string, FieldValue>,
+  externalIdLookups: Record<string, string>
+): Record<string, FieldValue> {
+  const clone = { ...record };
+
+  for (const [lookupPath, lookupField] of Object.entries(externalIdLookups)) {
+    const [relationshipName, parentField] = lookupPath.split('.');
+    const parent = record[relationshipName] as unknown as Record<string, FieldValue> | null;
+    delete clone[relationshipName];
+
+    const value = parent?.[parentField];
+    if (value === null || value === undefined) continue;
+    clone[lookupPath] = value;
+    delete clone[lookupField];
+  }
+
+  return clone;
+}
+
+/**
+ * Refuses a plan that masks fields without a salt: the masked value of a known source value
+ * could then be worked out by anyone with the plan.
+ */
+export function checkMaskSalt(plan: MigrationPlan, salt: string | undefined): void {
+  const masks =
+    Object.keys(plan.maskProfile ?? {}).length > 0 ||
+    plan.objects.some((obj) => Object.keys(obj.mask ?? {}).length > 0);
+  if (masks && !salt) {
+    throw new Error(
+      '❌ The plan masks fields, so it needs a secret --mask-salt (or SF_SEEDER_MASK_SALT). Keep it the same for every run whose masked values must match.'
+    );
+  }
+}
+
+export function maskRecord(
+  record: Record<string, FieldValue>,
+  maskRules: Record<string, string>,
+  salt: string
+): Record<string, FieldValue> {
+  const masked = { ...record };
+  for (const [field, token] of Object.entries(maskRules)) {
+    if (field in masked) {
+      masked[field] = maskWithFaker(token, masked[field], salt);
+      continue;
+    }
+
+    // `Relationship.Field` lookups that are still the parent record the query returned
+    const [relationshipName, parentField] = field.split('.');
+    const parent = masked[relationshipName] as unknown as Record<string, FieldValue> | null | undefined;
+    if (parentField === undefined || !parent || typeof parent !== 'object' || !(parentField in parent)) continue;
+    masked[relationshipName] = {
+      ...parent,
+      [parentField]: maskWithFaker(token, parent[parentField], salt),
+    } as unknown as FieldValue;
+  }
+  return masked;
+}
+
+/**
+ * Masks each `Relationship.Field` lookup with the mask of the parent field it matches on, so
+ * children still find their parents when the parents' external IDs are masked.
+ */
+function withLookupMasks(prepared: PreparedObject[]): PreparedObject[] {
+  return prepared.map((object) => {
+    const lookupMasks = Object.keys(object.externalIdLookups).flatMap((lookupPath): Array<[string, string]> => {
+      const parentField = lookupPath.split('.')[1];
+      const token = prepared
+        .filter(({ obj }) => object.lookupTargets[lookupPath]?.includes(obj.sobject))
+        .map(({ maskRules }) => maskRules[parentField])
+        .find(Boolean);
+      return token ? [[lookupPath, token]] : [];
+    });
+    return lookupMasks.length
+      ? { ...object, maskRules: { ...object.maskRules, ...Object.fromEntries(lookupMasks) } }
+      : object;
+  });
+}
+
+/**
+ * Applies the object's valueMap, fieldMap and constants to a record, in that order. valueMap
+ * and fieldMap are keyed by source field, constants by target field.
+ */
+function applyFieldRules(record: Record<string, FieldValue>, obj: MigrationObject): Record<string, FieldValue> {
+  const { fieldMap = {}, constants = {}, valueMap = {} } = obj;
+  const result: Record<string, FieldValue> = {};
+
+  for (const [field, value] of Object.entries(record)) {
+    const translations = valueMap[field];
+    const translated =
+      translations && value !== null && Object.hasOwn(translations, String(value))
+        ? translations[String(value)]
+        : value;
+    result[fieldMap[field] ?? field] = translated;
+  }
+
+  return { ...result, ...constants };
+}
+
+// Quotes a value for a SOQL IN list; numbers stay bare so number external IDs match as well
+function soqlLiteral(value: FieldValue): string {
+  if (typeof value === 'number') return String(value);
+  return `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Finds the target records whose `matchField` is one of `values`, with `fields` selected as
+ * well, and returns each record found keyed by its match value as a string.
+ */
+async function findTargetRecords(
+  conn: Connection,
+  sobject: string,
+  matchField: string,
+  values: FieldValue[],
+  fields: string[] = []
+): Promise<Map<string, Record<string, FieldValue>>> {
+  const unique = [...new Map(values.filter((v) => v !== null && v !== '').map((v) => [String(v), v])).values()];
+  const selected = [...new Map(['Id', matchField, ...fields].map((f) => [f.toLowerCase(), f])).values()];
+  const found = new Map<string, Record<string, FieldValue>>();
+
+  for (let i = 0; i < unique.length; i += MATCH_BATCH_SIZE) {
+    const list = unique
+      .slice(i, i + MATCH_BATCH_SIZE)
+      .map(soqlLiteral)
+      .join(', ');
+    // eslint-disable-next-line no-await-in-loop
+    for await (const page of queryPages(
+      conn,
+      `SELECT ${selected.join(', ')} FROM ${sobject} WHERE ${matchField} IN (${list})`
+    )) {
+      page.records.forEach((record) => found.set(String(record[matchField]), record));
+    }
+  }
+
+  return found;
+}
+
+// Reads a field of a queried record, following `Relationship.Field` paths into the parent record
+function fieldValue(record: Record<string, FieldValue>, field: string): FieldValue {
+  const [relationshipName, parentField] = field.split('.');
+  if (parentField === undefined) return record[field] ?? null;
+  const parent = record[relationshipName] as unknown as Record<string, FieldValue> | null;
+  return parent?.[parentField] ?? null;
+}
+
+/**
+ * Works out what writing `payload` would do to its matched target record. Blank and null
+ * are the same value, as Salesforce saves blank text as null.
+ */
+function previewRecord(
+  operation: MigrationOperation,
+  sourceId: string,
+  payload: Record<string, FieldValue>,
+  target: Record<string, FieldValue> | undefined
+): MigrationPreviewRecord {
+  if (!target) {
+    return operation === 'Insert' || operation === 'Upsert'
+      ? { sourceId, action: 'create', record: payload }
+      : { sourceId, action: 'notFound' };
+  }
+
+  const targetId = target.Id as string;
+  if (operation === 'Delete') return { sourceId, action: 'delete', targetId };
+
+  const changes = Object.fromEntries(
+    Object.entries(payload).flatMap(([field, to]) => {
+      const from = fieldValue(target, field);
+      return String(from ?? '') === String(to ?? '') ? [] : [[field, { from, to }]];
+    })
+  ) as Record<string, { from: FieldValue; to: FieldValue }>;
+
+  return Object.keys(changes).length
+    ? { sourceId, action: 'update', targetId, changes }
+    : { sourceId, action: 'unchanged', targetId };
+}
+
+/**
+ * Finds the target record each payload would be written to, with the payload fields selected
+ * so they can be compared: by externalId when the object has one, else by the ID map.
+ */
+async function matchTargetRecords(
+  targetConn: Connection,
+  obj: MigrationObject,
+  records: Array<Record<string, FieldValue>>,
+  payloads: Array<Record<string, FieldValue>>,
+  mappedIds: Map<string, string>
+): Promise<Array<Record<string, FieldValue> | undefined>> {
+  const operation = obj.operation ?? 'Insert';
+  if (operation === 'Insert') return records.map(() => undefined);
+
+  const fields = operation === 'Delete' ? [] : [...new Set(payloads.flatMap((payload) => Object.keys(payload)))];
+  const { externalId } = obj;
+  if (externalId) {
+    const found = await findTargetRecords(
+      targetConn,
+      obj.sobject,
+      externalId,
+      payloads.map((payload) => payload[externalId] ?? null),
+      fields
+    );
+    return payloads.map((payload) => found.get(String(payload[externalId])));
+  }
+
+  const targetIds = records.map((record) => mappedIds.get(record.Id as string));
+  const found = await findTargetRecords(
+    targetConn,
+    obj.sobject,
+    'Id',
+    targetIds.map((id) => id ?? null),
+    fields
+  );
+  return targetIds.map((id) => (id ? found.get(id) : undefined));
+}
+
+/**
+ * Migrates the objects of a plan from a source into a target org: lookups are mapped from
+ * source to target IDs through the ID map, and failed records are kept in `failures`.
+ */
+export class MigrationRunner {
+  public readonly failures: MigrationFailure[] = [];
+  private describeCache: Record<string, DescribeSObjectResult> = {};
+  private targetDescribeCache: Record<string, DescribeSObjectResult> = {};
+
+  public constructor(
+    private readonly source: MigrationSource,
+    private readonly logger: MigrationLogger,
+    private readonly options: MigrationOptions
+  ) {}
+
+  // Every object the source was described for so far, by name
+  public get describes(): Record<string, DescribeSObjectResult> {
+    return { ...this.describeCache };
+  }
+
+  public async run(
+    targetConn: Connection,
+    plan: MigrationPlan,
+    idMapStore: { path: string; store: IdMapStore }
+  ): Promise<SeederDataMigrateObjectResult[]> {
+    const ordered = await this.prepare(targetConn, plan);
+    const { store } = idMapStore;
+    const idMapBySObject = this.loadIdMap(idMapStore);
+
+    const objectResults: SeederDataMigrateObjectResult[] = [];
+    const pendingLinks: PendingLink[][] = [];
+
+    for (const [step, object] of ordered.entries()) {
+      const { obj } = object;
+      // Registered before extraction so later pages can resolve lookups to earlier pages of the same object
+      idMapBySObject[obj.sobject] ??= new Map<string, string>();
+      const links: PendingLink[] = [];
+      pendingLinks.push(links);
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        objectResults.push(await this.migrateObject(targetConn, object, step + 1, idMapBySObject, links));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`❌ Error with ${obj.sobject}: ${message}`);
+      }
+
+      // Saved after every object, so an interrupted migration keeps what it has mapped
+      store.idMap[obj.sobject] = Object.fromEntries(idMapBySObject[obj.sobject]);
+      writeIdMapStore(idMapStore.path, store);
+    }
+
+    for (const [index, object] of ordered.entries()) {
+      if (!pendingLinks[index].length) continue;
+      // eslint-disable-next-line no-await-in-loop
+      await this.linkDeferredReferences(targetConn, object, pendingLinks[index], idMapBySObject);
+    }
+
+    return objectResults;
+  }
+
+  /**
+   * Runs the migration and writes the failure report when records failed. The report is also
+   * written when the migration stops on an error, so the records that failed before it can be
+   * retried.
+   */
+  public async runAndReportFailures(
+    targetConn: Connection,
+    plan: MigrationPlan,
+    report: MigrationFailureReportOptions
+  ): Promise<{ objects: SeederDataMigrateObjectResult[]; failures?: string }> {
+    let objects: SeederDataMigrateObjectResult[];
+    try {
+      objects = await this.run(targetConn, plan, report.idMapStore);
+    } catch (error) {
+      writeMigrationFailures(this.failures, report, this.logger);
+      throw error;
+    }
+
+    const failures = writeMigrationFailures(this.failures, report, this.logger);
+    return { objects, ...(failures ? { failures } : {}) };
+  }
+
+  /**
+   * Works out what `run` would do without writing to the target org or the ID map store:
+   * records are extracted and their lookups mapped as for a migration, then matched to
+   * target records by externalId, or by the ID map for Update and Delete without one.
+   */
+  public async preview(
+    targetConn: Connection,
+    plan: MigrationPlan,
+    idMapStore: { path: string; store: IdMapStore }
+  ): Promise<MigrationPreviewObject[]> {
+    const ordered = await this.prepare(targetConn, plan);
+    const idMapBySObject = this.loadIdMap(idMapStore);
+
+    const objects: MigrationPreviewObject[] = [];
+    for (const object of ordered) {
+      idMapBySObject[object.obj.sobject] ??= new Map<string, string>();
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        objects.push(await this.previewObject(targetConn, object, idMapBySObject));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`❌ Error with ${object.obj.sobject}: ${message}`);
+      }
+    }
+
+    return objects;
+  }
+
+  // Prepares every object of a plan, in plan order
+  public async prepareObjects(
+    objects: MigrationObject[],
+    maskProfile: Record<string, string> = {}
+  ): Promise<PreparedObject[]> {
+    const prepared: PreparedObject[] = [];
+    for (const obj of objects) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        prepared.push(await this.prepareObject(obj, maskProfile));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`❌ Error with ${obj.sobject}: ${message}`);
+      }
+    }
+    return withLookupMasks(prepared);
+  }
+
+  private async prepareObject(obj: MigrationObject, maskProfile: Record<string, string> = {}): Promise<PreparedObject> {
+    this.logger.log(`🔍 Validating query for ${obj.sobject}`);
+
+    const { cleanedQuery, keptFields, externalIdLookups } = await this.sanitizeSOQLQuery(obj);
+    const referenceFieldMap = await this.getReferenceFieldMap(obj.sobject, keptFields);
+
+    const describe = await this.describe(obj.sobject);
+    const maskRules = this.collectMaskRules(obj, describe, keptFields, maskProfile);
+    // Deleted records are only matched, so their lookups neither order nor defer anything
+    const lookupTargets =
+      obj.operation === 'Delete'
+        ? {}
+        : (Object.fromEntries([
+            ...Object.entries(referenceFieldMap),
+            ...Object.entries(externalIdLookups).map(([lookupPath, lookupField]) => [
+              lookupPath,
+              describe.fields.find((f) => f.name === lookupField)?.referenceTo ?? [],
+            ]),
+          ]) as Record<string, string[]>);
+
+    return {
+      obj,
+      cleanedQuery,
+      keptFields,
+      referenceFieldMap,
+      externalIdLookups,
+      lookupTargets,
+      maskRules,
+      deferredFields: [],
+    };
+  }
+
+  // Prepares every object of the plan and checks it against the target org, in migration order
+  private async prepare(targetConn: Connection, plan: MigrationPlan): Promise<PreparedObject[]> {
+    const prepared = await this.prepareObjects(plan.objects, plan.maskProfile);
+    for (const { obj, keptFields } of prepared) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await this.checkFieldRules(targetConn, obj, keptFields);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`❌ Error with ${obj.sobject}: ${message}`);
+      }
+    }
+
+    return this.orderObjects(prepared);
+  }
+
+  private loadIdMap(idMapStore: { path: string; store: IdMapStore }): Record<string, Map<string, string>> {
+    const { idMap } = idMapStore.store;
+    // Records mapped by earlier migrations between the same orgs can be looked up as well
+    const idMapBySObject: Record<string, Map<string, string>> = Object.fromEntries(
+      Object.entries(idMap).map(([sobject, ids]) => [sobject, new Map(Object.entries(ids))])
+    );
+    const stored = Object.values(idMap).reduce((total, ids) => total + Object.keys(ids).length, 0);
+    if (stored) this.logger.log(`🗺️  Reusing ${stored} ID mappings from earlier migrations in ${idMapStore.path}`);
+    return idMapBySObject;
+  }
+
+  /**
+   * Puts parents before the objects that look them up, whatever order the plan lists them in.
+   * Lookups to the object itself or to an object that can only be migrated later (a cycle) are
+   * left out of the insert and filled in by a second pass once every object has been inserted.
+   */
+  private orderObjects(prepared: PreparedObject[]): PreparedObject[] {
+    const planned = new Set(prepared.map(({ obj }) => obj.sobject));
+    const order = orderByDependencies(
+      prepared.map(({ obj, lookupTargets }) => ({
+        sobject: obj.sobject,
+        parents: Object.values(lookupTargets)
+          .flat()
+          .filter((parent) => planned.has(parent)),
+      }))
+    );
+
+    const ordered = order.map((index) => prepared[index]);
+    if (order.some((index, position) => index !== position)) {
+      this.logger.log(`🔀 Migrating in dependency order: ${ordered.map(({ obj }) => obj.sobject).join(' → ')}`);
+    }
+
+    const migrated = new Set<string>();
+    return ordered.map((object) => {
+      const deferredFields = Object.entries(object.lookupTargets)
+        .filter(([, parents]) => parents.some((parent) => planned.has(parent) && !migrated.has(parent)))
+        .map(([field]) => field);
+      deferredFields.forEach((field) =>
+        this.logger.log(
+          `🔁 ${object.obj.sobject}.${field} is set after all objects are inserted (self or circular lookup)`
+        )
+      );
+      migrated.add(object.obj.sobject);
+
+      return { ...object, deferredFields };
+    });
+  }
+
+  /**
+   * Pages through the source query and writes every page to the target org before
+   * fetching the next, so large objects are never held in memory at once.
+   */
+  private async migrateObject(
+    targetConn: Connection,
+    object: PreparedObject,
+    step: number,
+    idMapBySObject: Record<string, Map<string, string>>,
+    links: PendingLink[]
+  ): Promise<SeederDataMigrateObjectResult> {
+    const { obj, cleanedQuery, referenceFieldMap } = object;
+    const operation = obj.operation ?? 'Insert';
+    const idMap = new Map<string, string>(); // Records written by this migration
+    let retrieved = 0;
+
+    for await (const page of this.source.query(cleanedQuery)) {
+      retrieved += page.records.length;
+      this.logger.log(`📦 Retrieved ${retrieved}/${page.totalSize} records from ${obj.sobject}`);
+
+      // eslint-disable-next-line no-await-in-loop
+      const sourceToInsert = await this.buildPayloads(object, page.records, idMapBySObject, links);
+      const written = await this.writePage(
+        targetConn,
+        obj,
+        step,
+        page.records,
+        sourceToInsert,
+        referenceFieldMap,
+        idMapBySObject[obj.sobject]
+      );
+      written.forEach((targetId, sourceId) => {
+        idMap.set(sourceId, targetId);
+        // Deleted records leave the store, so later migrations insert them again
+        if (operation === 'Delete') idMapBySObject[obj.sobject].delete(sourceId);
+        else idMapBySObject[obj.sobject].set(sourceId, targetId);
+      });
+    }
+
+    const failures = this.failures.filter((f) => f.step === step);
+    this.logger.log(`✅ ${OPERATION_VERBS[operation][1]} ${idMap.size}/${retrieved} ${obj.sobject} records`);
+
+    return {
+      sobject: obj.sobject,
+      operation,
+      retrieved,
+      succeeded: idMap.size,
+      failed: failures.length,
+      idMap: Object.fromEntries(idMap),
+      failures: failures.map((f) => ({ sourceId: f.sourceId, errors: f.errors.map((e) => e.message) })),
+    };
+  }
+
+  private async previewObject(
+    targetConn: Connection,
+    object: PreparedObject,
+    idMapBySObject: Record<string, Map<string, string>>
+  ): Promise<MigrationPreviewObject> {
+    const { obj, cleanedQuery } = object;
+    const operation = obj.operation ?? 'Insert';
+    // There is no second pass to set deferred lookups, so every lookup is mapped right away
+    const immediate = { ...object, deferredFields: [] };
+    const records: MigrationPreviewRecord[] = [];
+
+    for await (const page of this.source.query(cleanedQuery)) {
+      this.logger.log(
+        `📦 Retrieved ${records.length + page.records.length}/${page.totalSize} records from ${obj.sobject}`
+      );
+      const payloads = await this.buildPayloads(immediate, page.records, idMapBySObject, []);
+      const targets = await matchTargetRecords(targetConn, obj, page.records, payloads, idMapBySObject[obj.sobject]);
+
+      page.records.forEach((record, index) => {
+        const sourceId = record.Id as string;
+        const target = targets[index];
+        // Matched records can be looked up by the objects previewed after this one
+        if (target && operation !== 'Delete') idMapBySObject[obj.sobject].set(sourceId, target.Id as string);
+        records.push(previewRecord(operation, sourceId, payloads[index], target));
+      });
+    }
+
+    this.logger.log(`🧪 ${obj.sobject}: ${formatPreviewCounts(countPreviewActions(records))}`);
+    return { sobject: obj.sobject, operation, ...(obj.externalId ? { externalId: obj.externalId } : {}), records };
+  }
+
+  /**
+   * Turns a page of source records into the payloads written to the target org. Deferred
+   * lookups are left out and added to `links` for the second pass.
+   */
+  private async buildPayloads(
+    object: PreparedObject,
+    records: Array<Record<string, FieldValue>>,
+    idMapBySObject: Record<string, Map<string, string>>,
+    links: PendingLink[]
+  ): Promise<Array<Record<string, FieldValue>>> {
+    const { obj, referenceFieldMap, externalIdLookups, maskRules, deferredFields } = object;
+    const payloads: Array<Record<string, FieldValue>> = [];
+
+    for (const record of records) {
+      const clone = withExternalIdLookups(record, externalIdLookups);
+      delete clone.Id;
+      delete clone.attributes;
+
+      for (const field of deferredFields) {
+        const value = clone[field];
+        if (value !== null && value !== undefined) links.push({ sourceId: record.Id as string, field, value });
+        delete clone[field];
+      }
+
+      // eslint-disable-next-line no-await-in-loop
+      const resolved = await this.resolveReferencesWithFieldMap(clone, referenceFieldMap, idMapBySObject);
+      payloads.push(applyFieldRules(maskRecord(resolved, maskRules, this.options.maskSalt), obj));
+    }
+
+    return payloads;
+  }
+
+  /**
+   * Writes one page of source records and returns the target ID of each written source record.
+   * Update and Delete first match every record to its target record, by externalId when the
+   * object has one, else by the ID map; records without a match fail with NOT_FOUND.
+   */
+  private async writePage(
+    targetConn: Connection,
+    obj: MigrationObject,
+    step: number,
+    records: Array<Record<string, FieldValue>>,
+    sourceToInsert: Array<Record<string, FieldValue>>,
+    referenceFieldMap: Record<string, string[]>,
+    mappedIds: Map<string, string>
+  ): Promise<Map<string, string>> {
+    const operation = obj.operation ?? 'Insert';
+    this.logger.log(
+      `🚚 ${OPERATION_VERBS[operation][0]} ${sourceToInsert.length} ${obj.sobject} records in the target org...`
+    );
+
+    let targetIds: Array<string | undefined> | undefined;
+    if (operation === 'Update' || operation === 'Delete') {
+      const { externalId } = obj;
+      const found = externalId
+        ? await findTargetRecords(
+            targetConn,
+            obj.sobject,
+            externalId,
+            sourceToInsert.map((payload) => payload[externalId] ?? null)
+          )
+        : undefined;
+      targetIds = records.map((record, index) =>
+        externalId
+          ? (found?.get(String(sourceToInsert[index][externalId]))?.Id as string | undefined)
+          : mappedIds.get(record.Id as string)
+      );
+    }
+
+    const sent: number[] = [];
+    records.forEach((record, index) => {
+      if (!targetIds || targetIds[index]) {
+        sent.push(index);
+        return;
+      }
+      const match = obj.externalId
+        ? `${obj.externalId} ${String(sourceToInsert[index][obj.externalId])}`
+        : 'the ID map';
+      this.recordFailure(obj, step, record, sourceToInsert[index], referenceFieldMap, [
+        { code: 'NOT_FOUND', message: `No target record matches ${match}` },
+      ]);
+    });
+
+    const payloads = sent.map((index) =>
+      operation === 'Delete'
+        ? { Id: targetIds?.[index] as string }
+        : targetIds
+        ? { ...sourceToInsert[index], Id: targetIds[index] as string }
+        : sourceToInsert[index]
+    );
+    const results = payloads.length
+      ? await executeDml(targetConn, obj.sobject, MIGRATION_DML_OPERATIONS[operation], payloads, {
+          ...this.options.dmlOptions,
+          ...(operation === 'Upsert' ? { externalId: obj.externalId } : {}),
+        })
+      : [];
+
+    const written = new Map<string, string>();
+    results.forEach((result, position) => {
+      const index = sent[position];
+      const targetId = result.id ?? targetIds?.[index];
+      if (result.success && targetId) {
+        written.set(records[index].Id as string, targetId);
+        return;
+      }
+      this.recordFailure(
+        obj,
+        step,
+        records[index],
+        payloads[position],
+        referenceFieldMap,
+        parseSaveErrors(result.errors)
+      );
+    });
+
+    return written;
+  }
+
+  private recordFailure(
+    obj: MigrationObject,
+    step: number,
+    source: Record<string, FieldValue>,
+    payload: Record<string, FieldValue>,
+    referenceFieldMap: Record<string, string[]>,
+    errors: FailureError[]
+  ): void {
+    const operation = obj.operation ?? 'Insert';
+    const sourceId = source.Id as string;
+    this.logger.log(
+      `[!] Failed to ${operation.toLowerCase()} ${obj.sobject} record (${sourceId}): ${formatFailureErrors(errors)}`
+    );
+
+    // Lookups keep their source org IDs so a retry can map them once the parents exist
+    this.failures.push({
+      step,
+      sobject: obj.sobject,
+      operation,
+      ...(obj.externalId ? { externalId: obj.externalId } : {}),
+      sourceId,
+      payload,
+      lookups:
+        operation === 'Delete'
+          ? {}
+          : Object.fromEntries(
+              Object.keys(referenceFieldMap)
+                .filter((field) => typeof source[field] === 'string')
+                .map((field) => [obj.fieldMap?.[field] ?? field, source[field] as string])
+            ),
+      errors,
+    });
+  }
+
+  // Second pass: sets the deferred lookups now that the records they point to exist in the target org
+  private async linkDeferredReferences(
+    targetConn: Connection,
+    object: PreparedObject,
+    links: PendingLink[],
+    idMapBySObject: Record<string, Map<string, string>>
+  ): Promise<void> {
+    const { obj, referenceFieldMap, externalIdLookups } = object;
+    const updates = new Map<string, Record<string, FieldValue>>();
+
+    for (const { sourceId, field, value } of links) {
+      const targetId = idMapBySObject[obj.sobject].get(sourceId);
+      if (!targetId) continue; // The record itself failed and is in the failure report
+
+      let resolved: Record<string, FieldValue> = { [field]: value };
+      if (!externalIdLookups[field]) {
+        // eslint-disable-next-line no-await-in-loop
+        resolved = await this.resolveReferencesWithFieldMap(resolved, referenceFieldMap, idMapBySObject);
+        if (resolved[field] === value) {
+          this.logger.log(
+            `[!] ${obj.sobject} record (${sourceId}) keeps ${field} blank: ${String(value)} was not migrated`
+          );
+          continue;
+        }
+      }
+
+      const targetField = obj.fieldMap?.[field] ?? field;
+      updates.set(targetId, { ...(updates.get(targetId) ?? { Id: targetId }), [targetField]: resolved[field] });
+    }
+
+    if (!updates.size) return;
+
+    this.logger.log(`🔗 Setting deferred lookups on ${updates.size} ${obj.sobject} records...`);
+    const records = [...updates.values()];
+    const results = await executeDml(targetConn, obj.sobject, 'update', records, this.options.dmlOptions);
+
+    results.forEach((result, index) => {
+      if (result.success) return;
+      const errors = parseSaveErrors(result.errors);
+      this.logger.warn(
+        `Failed to set lookups on ${obj.sobject} record (${records[index].Id as string}): ${formatFailureErrors(
+          errors
+        )}`
+      );
+    });
+
+    this.logger.log(`✅ Linked ${results.filter((r) => r.success).length}/${records.length} ${obj.sobject} records`);
+  }
+
+  /**
+   * Keeps the fields of the query that can be written to the target org, along with its
+   * WHERE, ORDER BY, LIMIT and other clauses. Without a query every field is selected.
+   */
+  private async sanitizeSOQLQuery(
+    obj: MigrationObject
+  ): Promise<{ cleanedQuery: string; keptFields: string[]; externalIdLookups: Record<string, string> }> {
+    let parsed = parseSoql(obj.query ?? `SELECT FIELDS(ALL) FROM ${obj.sobject}`);
+    const sobject = parsed.sobject;
+
+    const describe = await this.describe(sobject);
+    const excluded = new Set((obj.exclude ?? []).map((field) => field.toLowerCase()));
+    const fields = expandFieldsFunctions(parsed.fields, describe).filter((field) => !excluded.has(field.toLowerCase()));
+
+    const editableFields = new Set(describe.fields.filter((f) => f.updateable && !f.calculated).map((f) => f.name));
+
+    const kept: string[] = [];
+    const externalIdLookups: Record<string, string> = {};
+
+    for (const field of fields) {
+      if (field.toLowerCase() === 'id') continue; // Always queried, to map source IDs to target IDs
+      if (editableFields.has(field)) {
+        kept.push(field);
+        continue;
+      }
+
+      // eslint-disable-next-line no-await-in-loop
+      const lookup = field.includes('.') ? await this.resolveExternalIdLookup(describe, field) : undefined;
+      if (lookup) {
+        externalIdLookups[lookup.path] = lookup.lookupField;
+        continue;
+      }
+
+      const info = describe.fields.find((f) => f.name === field);
+      const reason = field.includes('.')
+        ? 'Not a lookup by external ID'
+        : info
+        ? info?.calculated
+          ? 'Formula field'
+          : info?.custom
+          ? 'Custom non-editable'
+          : 'Standard non-editable'
+        : 'Invalid Field';
+      this.logger.log(`[!] Skipped field "${field}" on "${sobject}" - ${reason}`);
+    }
+
+    parsed = { ...parsed, fields: ['Id', ...kept, ...Object.keys(externalIdLookups)] };
+    if (obj.maxRecords) parsed = capLimit(parsed, obj.maxRecords);
+
+    return { cleanedQuery: buildSoql(parsed), keptFields: kept, externalIdLookups };
+  }
+
+  /**
+   * Matches `Relationship.Field` against a writable lookup whose parent field is an external ID,
+   * so the record can be linked to its parent in the target org without an ID map.
+   */
+  private async resolveExternalIdLookup(
+    describe: DescribeSObjectResult,
+    field: string
+  ): Promise<{ path: string; lookupField: string } | undefined> {
+    const [relationshipName, parentField, ...deeper] = field.split('.');
+    if (deeper.length) return undefined;
+
+    const lookup = describe.fields.find(
+      (f) => f.type === 'reference' && f.relationshipName?.toLowerCase() === relationshipName.toLowerCase()
+    );
+    // Polymorphic lookups would need the parent type in the payload as well
+    if (!lookup?.updateable || lookup.referenceTo?.length !== 1) return undefined;
+
+    const parent = await this.describe(lookup.referenceTo[0]);
+    const externalId = parent.fields.find((f) => f.externalId && f.name.toLowerCase() === parentField.toLowerCase());
+    if (!externalId) return undefined;
+
+    return { path: `${lookup.relationshipName as string}.${externalId.name}`, lookupField: lookup.name };
+  }
+
+  /**
+   * Checks that renamed fields and constants exist and can be written in the target org,
+   * whose schema may differ from the source org's.
+   */
+  private async checkFieldRules(targetConn: Connection, obj: MigrationObject, keptFields: string[]): Promise<void> {
+    const { fieldMap = {}, constants = {}, valueMap = {} } = obj;
+    const targetFields = [...Object.values(fieldMap), ...Object.keys(constants)];
+    if (!targetFields.length && !Object.keys(valueMap).length) return;
+
+    const target = (this.targetDescribeCache[obj.sobject] ??= await targetConn.sobject(obj.sobject).describe());
+    const writable = new Set(
+      target.fields.filter((f) => f.createable || f.updateable).map((f) => f.name.toLowerCase())
+    );
+
+    const invalid = targetFields.filter((field) => !writable.has(field.toLowerCase()));
+    if (invalid.length) {
+      throw new Error(
+        `fieldMap and constants name fields that cannot be written in the target org: ${invalid.join(', ')}`
+      );
+    }
+
+    const migrated = new Set(keptFields.map((field) => field.toLowerCase()));
+    Object.keys({ ...fieldMap, ...valueMap })
+      .filter((field) => !migrated.has(field.toLowerCase()))
+      .forEach((field) =>
+        this.logger.warn(`${obj.sobject}.${field} has a fieldMap or valueMap rule but is not migrated`)
+      );
+  }
+
+  /**
+   * Picks the faker token that masks each migrated field: the object's `mask` entry, else the
+   * plan's maskProfile entry for the field's type. IDs and lookups are never masked.
+   */
+  private collectMaskRules(
+    obj: MigrationObject,
+    describe: DescribeSObjectResult,
+    keptFields: string[],
+    maskProfile: Record<string, string>
+  ): Record<string, string> {
+    const mask = obj.mask ?? {};
+    const rules: Record<string, string> = {};
+
+    for (const field of keptFields) {
+      const type = describe.fields.find((f) => f.name === field)?.type;
+      const token = mask[field] ?? (type && type !== 'reference' && type !== 'id' ? maskProfile[type] : undefined);
+      if (token) rules[field] = token;
+    }
+
+    Object.keys(mask)
+      .filter((field) => !keptFields.includes(field))
+      .forEach((field) => this.logger.warn(`${obj.sobject}.${field} has a mask but is not migrated`));
+
+    const invalid = Object.entries(rules).flatMap(([field, token]) => {
+      const error = getFakerExpressionError(token);
+      return error ? [`${field} (${error})`] : [];
+    });
+    if (invalid.length) throw new Error(`Invalid mask for ${invalid.join(', ')}`);
+
+    if (Object.keys(rules).length) this.logger.log(`🎭 Masking ${Object.keys(rules).join(', ')} on ${obj.sobject}`);
+    return rules;
+  }
+
+  private async describe(sobject: string): Promise<DescribeSObjectResult> {
+    if (!this.describeCache[sobject]) {
+      this.describeCache[sobject] = await this.source.describe(sobject);
+    }
+    return this.describeCache[sobject];
+  }
+
+  private async getReferenceFieldMap(sobject: string, keptFields: string[]): Promise<Record<string, string[]>> {
+    await this.describe(sobject);
+
+    const fieldMap: Record<string, string[]> = {};
+    const referenceObj: Set<string> = new Set<string>();
+
+    for (const fieldName of keptFields) {
+      const fieldMeta = this.describeCache[sobject].fields.find((f) => f.name === fieldName);
+      if (fieldMeta && fieldMeta.type === 'reference' && fieldMeta.referenceTo) {
+        fieldMap[fieldName] = fieldMeta.referenceTo;
+        fieldMeta.referenceTo?.forEach((item) => referenceObj.add(item));
+      }
+    }
+
+    for (const obj of referenceObj) {
+      // eslint-disable-next-line no-await-in-loop
+      await this.describe(obj);
+    }
+
+    return fieldMap;
+  }
+
+  /**
+   * Returns a copy of the record with its lookups mapped to target IDs. Only fields the
+   * describe types as references are mapped, whatever the key prefix of the objects they
+   * point to, e.g. `a0X` for custom objects.
+   */
+  private async resolveReferencesWithFieldMap(
+    record: Record<string, FieldValue>,
+    referenceFieldMap: Record<string, string[]>,
+    idMapBySObject: Record<string, Map<string, string>>
+  ): Promise<Record<string, FieldValue>> {
+    const resolved = { ...record };
+    for (const [fieldName, value] of Object.entries(record)) {
+      if (!value || typeof value !== 'string') continue;
+
+      const possibleObjects = referenceFieldMap[fieldName];
+      if (!possibleObjects) continue;
+
+      let referencedObject: string | undefined;
+
+      if (possibleObjects.length === 1) {
+        referencedObject = possibleObjects[0];
+      } else {
+        const idPrefix = value.substring(0, 3);
+        for (const obj of possibleObjects) {
+          // eslint-disable-next-line no-await-in-loop
+          if ((await this.describe(obj)).keyPrefix === idPrefix) {
+            referencedObject = obj;
+            break;
+          }
+        }
+      }
+
+      if (referencedObject && idMapBySObject[referencedObject]) {
+        const mappedId = idMapBySObject[referencedObject].get(value);
+        if (mappedId) {
+          resolved[fieldName] = mappedId;
+        }
+      }
+    }
+    return resolved;
+  }
+}
@@ -0,0 +1,98 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Connection } from '@salesforce/core';
+import { Field } from 'jsforce';
+
+export type PicklistOption = {
+  value: string;
+  validFor?: string[]; // Controlling field values this option is valid for (dependent picklists only)
+};
+
+type UiApiPicklistValues = {
+  picklistFieldValues: Record<
+    string,
+    {
+      controllerValues: Record<string, number>;
+      values: Array<{ value: string; validFor: number[] }>;
+    }
+  >;
+};
+
+function getControllerValues(controller: Field): string[] {
+  // Checkbox controllers map bit 0 to unchecked and bit 1 to checked
+  if (controller.type === 'boolean') return ['false', 'true'];
+  return (controller.picklistValues ?? []).map((p) => p.value);
+}
+
+// validFor is a base64 bitmap with one bit per controlling value, most significant bit first
+function decodeValidFor(validFor: string, controllerValues: string[]): string[] {
+  const bytes = Buffer.from(validFor, 'base64');
+  return controllerValues.filter((_, i) => (bytes[i >> 3] ?? 0) & (0x80 >> i % 8));
+}
+
+/**
+ * Active picklist values from the describe result, with the controlling values
+ * each one is valid for when the field is a dependent picklist.
+ */
+export function getPicklistOptions(field: Field, controller?: Field): PicklistOption[] {
+  return (field.picklistValues ?? [])
+    .filter((p) => p.active && p.value)
+    .map((p) => {
+      if (!field.dependentPicklist || !controller || !p.validFor) return { value: p.value };
+      return { value: p.value, validFor: decodeValidFor(p.validFor, getControllerValues(controller)) };
+    });
+}
+
+/**
+ * Picklist values available to one record type, keyed by field name, using the UI API.
+ */
+export async function fetchRecordTypePicklistOptions(
+  conn: Connection,
+  sobject: string,
+  recordTypeId: string
+): Promise<Map<string, PicklistOption[]>> {
+  const response = await conn.request<UiApiPicklistValues>(
+    `/ui-api/object-info/${sobject}/picklist-values/${recordTypeId}`
+  );
+
+  const options = new Map<string, PicklistOption[]>();
+  for (const [fieldName, info] of Object.entries(response.picklistFieldValues ?? {})) {
+    const controllerByIndex = new Map(Object.entries(info.controllerValues ?? {}).map(([value, i]) => [i, value]));
+    options.set(
+      fieldName,
+      info.values.map((v) =>
+        controllerByIndex.size
+          ? { value: v.value, validFor: v.validFor.map((i) => controllerByIndex.get(i)!).filter(Boolean) }
+          : { value: v.value }
+      )
+    );
+  }
+
+  return options;
+}
+
+/**
+ * Builds the plan expression for a picklist: `#{pick(...)}` over every value with
+ * equal weights, or `#{pickBy(...)}` keyed by the controlling field's value.
+ */
+export function buildPicklistExpression(options: PicklistOption[], controllerName?: string | null): string | null {
+  if (!options.length) return null;
+
+  if (!controllerName) {
+    const values = options.map((o) => o.value);
+    return `#{pick(${JSON.stringify(values)},${JSON.stringify(values.map(() => 1))})}`;
+  }
+
+  const byController: Record<string, string[]> = {};
+  for (const option of options) {
+    for (const controllerValue of option.validFor ?? []) {
+      (byController[controllerValue] ??= []).push(option.value);
+    }
+  }
+
+  return `#{pickBy(${JSON.stringify(controllerName)},${JSON.stringify(byController)})}`;
+}
@@ -0,0 +1,305 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import JSON5 from 'json5';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import {
+  MigrationObject,
+  MigrationPlan,
+  MigrationPlanFile,
+  PlanInclude,
+  SeedingPlan,
+  SeedingPlanFile,
+  SeedingStep,
+  FieldValue,
+} from '../types/index.js';
+import { getReferenceKey } from './reference.js';
+
+export type PlanSource = {
+  file: string; // Absolute path of the file the entry is written in
+  pointer: string; // JSON pointer to the entry within that file, e.g. /steps/2
+};
+
+// Called with the parsed content of every plan file before it is composed
+export type PlanFileVisitor = (file: string, raw: unknown) => void;
+
+const YAML_EXTENSIONS = new Set(['.yaml', '.yml']);
+
+// Where each step or migration object pulled in from another file was written
+const planSources = new WeakMap<object, PlanSource>();
+
+export function getPlanSource(entry: object): PlanSource | undefined {
+  return planSources.get(entry);
+}
+
+export function copyPlanSource(from: object, to: object): void {
+  const source = planSources.get(from);
+  if (source) planSources.set(to, source);
+}
+
+export function describePlanSource(source: PlanSource): string {
+  const file = path.relative(process.cwd(), source.file) || source.file;
+  return source.pointer ? `${file}#${source.pointer}` : file;
+}
+
+/**
+ * Labels a step or migration object by its position, e.g. `Step 3`. Entries pulled in
+ * with "include" or "extends" also name the file they are written in.
+ */
+export function formatEntryLabel(noun: string, entry: object, index: number): string {
+  const source = planSources.get(entry);
+  return source ? `${noun} ${index + 1} (${describePlanSource(source)})` : `${noun} ${index + 1}`;
+}
+
+/**
+ * Parses a plan file as YAML (.yaml, .yml), JSON5 (.json5) or JSON (anything else).
+ */
+export function readPlanFile(filePath: string): unknown {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  try {
+    if (YAML_EXTENSIONS.has(extension)) return parseYaml(content) as unknown;
+    if (extension === '.json5') return JSON5.parse(content);
+    return JSON.parse(content) as unknown;
+  } catch (error) {
+    throw new Error(`Invalid plan file ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Writes a plan in the format matching the file extension, as {@link readPlanFile} reads it.
+ */
+export function writePlanFile(filePath: string, data: unknown): void {
+  const extension = path.extname(filePath).toLowerCase();
+
+  let content: string;
+  if (YAML_EXTENSIONS.has(extension)) {
+    content = stringifyYaml(data);
+  } else if (extension === '.json5') {
+    content = JSON5.stringify(data, null, 2);
+  } else {
+    content = JSON.stringify(data, null, 2);
+  }
+
+  fs.writeFileSync(filePath, content);
+}
+
+/**
+ * Accepts either a bare array of steps or a `{ seed, extends, steps }` object and
+ * returns the object form.
+ */
+export function normalizeSeedingPlan(raw: unknown): SeedingPlanFile {
+  if (Array.isArray(raw)) {
+    return { steps: raw as SeedingStep[] };
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Seeding plan must be an array of steps or an object with a "steps" array.');
+  }
+
+  const plan = raw as Partial<SeedingPlanFile>;
+  if (!Array.isArray(plan.steps)) {
+    throw new Error('Seeding plan object must contain a "steps" array.');
+  }
+
+  if (plan.seed !== undefined && !Number.isInteger(plan.seed)) {
+    throw new Error('Seeding plan "seed" must be an integer.');
+  }
+
+  if (plan.extends !== undefined && (typeof plan.extends !== 'string' || !plan.extends)) {
+    throw new Error('Seeding plan "extends" must be a file path.');
+  }
+
+  return { seed: plan.seed, extends: plan.extends, variables: normalizeVariables(plan.variables), steps: plan.steps };
+}
+
+export function normalizeMigrationPlan(raw: unknown): MigrationPlanFile {
+  const plan = raw as Partial<MigrationPlanFile> | null;
+  if (!plan || typeof plan !== 'object' || !Array.isArray(plan.objects)) {
+    throw new Error('Migration plan must be an object with an "objects" array.');
+  }
+
+  if (plan.extends !== undefined && (typeof plan.extends !== 'string' || !plan.extends)) {
+    throw new Error('Migration plan "extends" must be a file path.');
+  }
+
+  if (
+    plan.maskProfile !== undefined &&
+    (!isPlainObject(plan.maskProfile) || !Object.values(plan.maskProfile).every((v) => typeof v === 'string'))
+  ) {
+    throw new Error('Migration plan "maskProfile" must be an object of field types to faker tokens.');
+  }
+
+  return {
+    extends: plan.extends,
+    variables: normalizeVariables(plan.variables),
+    maskProfile: plan.maskProfile,
+    objects: plan.objects,
+  };
+}
+
+function normalizeVariables(variables: unknown): Record<string, FieldValue> | undefined {
+  if (variables === undefined) return undefined;
+  if (!isPlainObject(variables) || !Object.values(variables).every(isVariableValue)) {
+    throw new Error('"variables" must be an object of names to strings, numbers, booleans or null.');
+  }
+
+  return variables as Record<string, FieldValue>;
+}
+
+/**
+ * Reads a seeding plan, splicing in `{ "include": "file" }` steps and applying `extends`.
+ * Paths are relative to the file that names them.
+ */
+export function readSeedingPlan(filePath: string, visit?: PlanFileVisitor): SeedingPlan {
+  const { plan, entries } = loadPlan<SeedingStep, SeedingPlanFile>(
+    {
+      listKey: 'steps',
+      normalize: normalizeSeedingPlan,
+      mergeKey: getReferenceKey,
+      visit,
+    },
+    filePath,
+    []
+  );
+
+  return { seed: plan.seed, variables: plan.variables, steps: forgetRootSources(filePath, entries) };
+}
+
+/**
+ * Reads a migration plan, splicing in `{ "include": "file" }` objects and applying `extends`.
+ */
+export function readMigrationPlan(filePath: string, visit?: PlanFileVisitor): MigrationPlan {
+  const { plan, entries } = loadPlan<MigrationObject, MigrationPlanFile>(
+    {
+      listKey: 'objects',
+      normalize: normalizeMigrationPlan,
+      mergeKey: (object) => object.sobject,
+      visit,
+    },
+    filePath,
+    []
+  );
+
+  return { variables: plan.variables, maskProfile: plan.maskProfile, objects: forgetRootSources(filePath, entries) };
+}
+
+type PlanLayout<T, P> = {
+  listKey: 'steps' | 'objects';
+  normalize: (raw: unknown) => P;
+  mergeKey: (entry: T) => string;
+  visit?: PlanFileVisitor;
+};
+
+function isPlanInclude(entry: unknown): entry is PlanInclude {
+  return !!entry && typeof entry === 'object' && 'include' in entry;
+}
+
+function isVariableValue(value: unknown): value is FieldValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function loadPlan<T extends object, P extends { extends?: string; variables?: Record<string, FieldValue> }>(
+  layout: PlanLayout<T, P>,
+  filePath: string,
+  stack: string[]
+): { plan: P; entries: T[] } {
+  const file = path.resolve(filePath);
+  const chain = [...stack, file];
+  if (stack.includes(file)) {
+    throw new Error(`Circular plan include: ${chain.map((f) => path.relative(process.cwd(), f)).join(' -> ')}`);
+  }
+  if (!fs.existsSync(file)) {
+    const from = stack.length ? ` (included from ${path.relative(process.cwd(), stack[stack.length - 1])})` : '';
+    throw new Error(`Plan file ${filePath} not found${from}.`);
+  }
+
+  const raw = readPlanFile(file);
+  layout.visit?.(file, raw);
+
+  let plan: P;
+  try {
+    plan = layout.normalize(raw);
+  } catch (error) {
+    throw new Error(`${describePlanSource({ file, pointer: '' })}: ${(error as Error).message}`);
+  }
+
+  const pointer = Array.isArray(raw) ? '' : `/${layout.listKey}`;
+  const list = (plan as Record<string, unknown>)[layout.listKey] as Array<T | PlanInclude>;
+  const entries: T[] = [];
+  let variables = plan.variables;
+
+  for (const [index, entry] of list.entries()) {
+    if (!isPlanInclude(entry)) {
+      if (isPlainObject(entry)) planSources.set(entry, { file, pointer: `${pointer}/${index}` });
+      entries.push(entry);
+      continue;
+    }
+
+    if (typeof entry.include !== 'string' || !entry.include) {
+      const source = describePlanSource({ file, pointer: `${pointer}/${index}` });
+      throw new Error(`${source}: "include" must be a file path.`);
+    }
+    const included = loadPlan(layout, path.resolve(path.dirname(file), entry.include), chain);
+    entries.push(...included.entries);
+    // Variables of an included file are defaults; the including plan's values win
+    if (included.plan.variables) variables = { ...included.plan.variables, ...variables };
+  }
+
+  if (!plan.extends) return { plan: { ...plan, variables }, entries };
+
+  const base = loadPlan(layout, path.resolve(path.dirname(file), plan.extends), chain);
+  const inherited = Object.fromEntries(Object.entries(plan).filter(([, value]) => value !== undefined));
+  if (base.plan.variables) variables = { ...base.plan.variables, ...variables };
+
+  return {
+    plan: { ...base.plan, ...inherited, variables } as P,
+    entries: mergeEntries(base.entries, entries, layout.mergeKey),
+  };
+}
+
+// Entries whose key matches a base entry are merged into it in place; the rest are appended
+function mergeEntries<T extends object>(base: T[], own: T[], mergeKey: (entry: T) => string): T[] {
+  const merged = [...base];
+
+  for (const entry of own) {
+    const index = merged.findIndex((b) => mergeKey(b) === mergeKey(entry));
+    if (index === -1) {
+      merged.push(entry);
+      continue;
+    }
+
+    // Objects such as "fields" and "nullRate" are merged one level deep, other values replaced
+    const combined: Record<string, unknown> = { ...(merged[index] as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(entry)) {
+      const current = combined[key];
+      combined[key] = isPlainObject(current) && isPlainObject(value) ? { ...current, ...value } : value;
+    }
+
+    const source = planSources.get(entry);
+    if (source) planSources.set(combined, source);
+    merged[index] = combined as T;
+  }
+
+  return merged;
+}
+
+// Entries of the plan file itself keep their plain "Step N" labels
+function forgetRootSources<T extends object>(filePath: string, entries: T[]): T[] {
+  const file = path.resolve(filePath);
+  for (const entry of entries) {
+    if (planSources.get(entry)?.file === file) planSources.delete(entry);
+  }
+
+  return entries;
+}
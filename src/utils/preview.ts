@@ -0,0 +1,42 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { MigrationPreviewAction, MigrationPreviewRecord, MigrationPreviewReport } from '../types/index.js';
+
+export const DEFAULT_PREVIEW_DIR = path.join('.sf-seeder', 'previews');
+
+const ACTION_LABELS: Record<MigrationPreviewAction, string> = {
+  create: 'to create',
+  update: 'to update',
+  unchanged: 'unchanged',
+  delete: 'to delete',
+  notFound: 'not found',
+};
+
+export function defaultPreviewPath(runId: string): string {
+  return path.resolve(DEFAULT_PREVIEW_DIR, `${runId}.json`);
+}
+
+export function writePreviewReport(filePath: string, report: MigrationPreviewReport): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(report, null, 2));
+}
+
+export function countPreviewActions(records: MigrationPreviewRecord[]): Record<MigrationPreviewAction, number> {
+  const counts: Record<MigrationPreviewAction, number> = { create: 0, update: 0, unchanged: 0, delete: 0, notFound: 0 };
+  records.forEach((record) => counts[record.action]++);
+  return counts;
+}
+
+// e.g. "2 to create, 1 unchanged"
+export function formatPreviewCounts(counts: Record<MigrationPreviewAction, number>): string {
+  const parts = Object.entries(counts)
+    .filter(([, count]) => count)
+    .map(([action, count]) => `${count} ${ACTION_LABELS[action as MigrationPreviewAction]}`);
+  return parts.length ? parts.join(', ') : 'no records';
+}
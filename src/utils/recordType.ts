@@ -0,0 +1,76 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Connection } from '@salesforce/core';
+import { SeedingStep } from '../types/index.js';
+import { hasTemplateTokens, parseTemplate } from './template.js';
+
+export type RecordTypeInfo = {
+  id: string;
+  sobject: string;
+  developerName: string;
+  name: string;
+};
+
+/**
+ * Parses the body of a `#{recordType.<SObject>.<DeveloperName>}` token.
+ * Returns null for other tokens and throws when malformed.
+ */
+export function parseRecordTypeExpression(expression: string): { sobject: string; developerName: string } | null {
+  if (!expression.startsWith('recordType.')) return null;
+
+  const [, sobject, developerName, ...rest] = expression.split('.');
+  if (!sobject || !developerName || rest.length) {
+    throw new Error(`Invalid record type token "#{${expression}}". Expected #{recordType.SObject.DeveloperName}`);
+  }
+
+  return { sobject, developerName };
+}
+
+export function recordTypeKey(sobject: string, developerName: string): string {
+  return `${sobject}.${developerName}`.toLowerCase();
+}
+
+export async function queryRecordTypes(conn: Connection, sobjects: string[]): Promise<RecordTypeInfo[]> {
+  if (!sobjects.length) return [];
+
+  const names = [...new Set(sobjects)].map((s) => `'${s}'`).join(',');
+  const result = await conn.query<{ Id: string; SobjectType: string; DeveloperName: string; Name: string }>(
+    `SELECT Id, SobjectType, DeveloperName, Name FROM RecordType WHERE IsActive = true AND SobjectType IN (${names})`
+  );
+
+  return result.records.map((r) => ({
+    id: r.Id,
+    sobject: r.SobjectType,
+    developerName: r.DeveloperName,
+    name: r.Name,
+  }));
+}
+
+/**
+ * Looks up the Ids of every record type the plan refers to, keyed by {@link recordTypeKey}.
+ */
+export async function fetchRecordTypeIds(conn: Connection, steps: SeedingStep[]): Promise<Map<string, string>> {
+  const sobjects = new Set<string>();
+
+  for (const step of steps) {
+    for (const value of Object.values(step.fields ?? {})) {
+      if (typeof value !== 'string' || !hasTemplateTokens(value)) continue;
+      try {
+        for (const part of parseTemplate(value)) {
+          if (part.kind !== 'token') continue;
+          const recordType = parseRecordTypeExpression(part.expression);
+          if (recordType) sobjects.add(recordType.sobject);
+        }
+      } catch {
+        // Reported by plan validation
+      }
+    }
+  }
+
+  const recordTypes = await queryRecordTypes(conn, [...sobjects]);
+  return new Map(recordTypes.map((rt) => [recordTypeKey(rt.sobject, rt.developerName), rt.id]));
+}
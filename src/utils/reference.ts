@@ -0,0 +1,160 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Connection } from '@salesforce/core';
+import { FieldValue, SavedReference, SeedingStep } from '../types/index.js';
+import { pickRandom } from './faker.js';
+
+/**
+ * How a reference picks a parent record for each child record:
+ * - random: any saved record (default)
+ * - round-robin: cycles through the saved records in order (1, 2, 3, 1, 2, 3)
+ * - sequential: hands out contiguous blocks (1, 1, 2, 2, 3, 3)
+ * - first: any of the first `limit` saved records
+ */
+export type ReferenceStrategy = 'random' | 'round-robin' | 'sequential' | 'first';
+
+export type ParsedReference = {
+  key: string; // Name the parent records were saved under
+  field: string; // Field to copy from the parent record
+  strategy: ReferenceStrategy;
+  limit?: number; // Only for the "first" strategy
+};
+
+export const REFERENCE_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const STRATEGY_PATTERN = /^(random|round-robin|sequential|first\((\d+)\))$/;
+
+// Name a step's records are saved and referenced under: its alias, else its SObject
+export function getReferenceKey(step: SeedingStep): string {
+  return step.ref ?? step.sobject;
+}
+
+export function isReference(value: FieldValue): boolean {
+  return typeof value === 'string' && value.startsWith('@{') && value.endsWith('}');
+}
+
+/**
+ * Parses `@{Key.Field}` with an optional strategy, e.g. `@{Account.Id | round-robin}`
+ * or `@{Account.Name | first(5)}`. Returns null when the value is not a reference
+ * and throws when it is malformed.
+ */
+export function parseReference(value: FieldValue): ParsedReference | null {
+  if (typeof value !== 'string' || !isReference(value)) return null;
+
+  const [target, strategyText, ...rest] = value.slice(2, -1).split('|');
+  const [key, field, ...extra] = target.trim().split('.');
+  if (!key || !field || extra.length || rest.length) {
+    throw new Error(`Invalid reference "${value}". Expected @{Object.Field} or @{Object.Field | strategy}`);
+  }
+
+  if (strategyText === undefined) {
+    return { key, field, strategy: 'random' };
+  }
+
+  const match = STRATEGY_PATTERN.exec(strategyText.trim());
+  if (!match) {
+    throw new Error(
+      `Invalid reference strategy "${strategyText.trim()}" in "${value}". Use random, round-robin, sequential or first(N)`
+    );
+  }
+
+  if (match[2] !== undefined) {
+    const limit = Number(match[2]);
+    if (limit < 1) throw new Error(`Reference strategy first(N) needs N of at least 1 in "${value}"`);
+    return { key, field, strategy: 'first', limit };
+  }
+
+  return { key, field, strategy: match[1] as ReferenceStrategy };
+}
+
+/**
+ * Picks the parent record for the `index`-th of `total` child records.
+ */
+export function selectReference(
+  reference: ParsedReference,
+  candidates: SavedReference[],
+  index: number,
+  total: number
+): SavedReference {
+  switch (reference.strategy) {
+    case 'round-robin':
+      return candidates[index % candidates.length];
+    case 'sequential':
+      return candidates[Math.min(candidates.length - 1, Math.floor((index * candidates.length) / total))];
+    case 'first':
+      return pickRandom(candidates.slice(0, reference.limit));
+    default:
+      return pickRandom(candidates);
+  }
+}
+
+export function getReferenceValue(saved: SavedReference, field: string): FieldValue | undefined {
+  if (field.toLowerCase() === 'id') return saved.id;
+
+  // Field API names are case-insensitive in Salesforce
+  const match = Object.keys(saved.fields).find((name) => name.toLowerCase() === field.toLowerCase());
+  return match === undefined ? undefined : saved.fields[match];
+}
+
+/**
+ * Collects, per reference key, the non-Id fields that later steps read from it.
+ */
+export function collectReferencedFields(steps: SeedingStep[]): Map<string, Set<string>> {
+  const referenced = new Map<string, Set<string>>();
+
+  for (const step of steps) {
+    for (const value of Object.values(step.fields ?? {})) {
+      let reference: ParsedReference | null = null;
+      try {
+        reference = parseReference(value);
+      } catch {
+        // Reported by plan validation
+      }
+
+      if (reference && reference.field.toLowerCase() !== 'id') {
+        const fields = referenced.get(reference.key) ?? new Set<string>();
+        fields.add(reference.field);
+        referenced.set(reference.key, fields);
+      }
+    }
+  }
+
+  return referenced;
+}
+
+/**
+ * Queries back referenced fields that were not part of the insert payload,
+ * such as auto-numbers or values set by defaults and automation.
+ */
+export async function fetchReferencedFields(
+  conn: Connection,
+  sobject: string,
+  saved: SavedReference[],
+  wanted: string[]
+): Promise<void> {
+  const sent = new Set(Object.keys(saved[0]?.fields ?? {}).map((f) => f.toLowerCase()));
+  const missing = wanted.filter((f) => !sent.has(f.toLowerCase()));
+  if (!missing.length || !saved.length) return;
+
+  const byId = new Map(saved.map((s) => [s.id, s]));
+  const ids = [...byId.keys()];
+
+  for (let i = 0; i < ids.length; i += 200) {
+    const idList = ids
+      .slice(i, i + 200)
+      .map((id) => `'${id}'`)
+      .join(',');
+    // eslint-disable-next-line no-await-in-loop
+    const result = await conn.query<Record<string, FieldValue>>(
+      `SELECT Id, ${missing.join(', ')} FROM ${sobject} WHERE Id IN (${idList})`
+    );
+    for (const row of result.records) {
+      const target = byId.get(row.Id as string);
+      if (target) missing.forEach((f) => (target.fields[f] = row[f] ?? null));
+    }
+  }
+}
@@ -0,0 +1,82 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { Ajv, ErrorObject, ValidateFunction } from 'ajv';
+import { describePlanSource, PlanFileVisitor } from './plan.js';
+
+export type PlanKind = 'seeding' | 'migration';
+
+export type SchemaIssue = {
+  pointer: string; // JSON pointer to the offending value, e.g. /steps/0/count
+  message: string;
+};
+
+const SCHEMA_FILES: Record<PlanKind, string> = {
+  seeding: 'seeding-plan.schema.json',
+  migration: 'migration-plan.schema.json',
+};
+
+const validators = new Map<PlanKind, ValidateFunction>();
+
+// The schemas ship in /plan-schemas at the package root, two levels above src/utils and lib/utils
+export function getPlanSchemaPath(kind: PlanKind): string {
+  return fileURLToPath(new URL(`../../plan-schemas/${SCHEMA_FILES[kind]}`, import.meta.url));
+}
+
+export function loadPlanSchema(kind: PlanKind): Record<string, unknown> {
+  return JSON.parse(fs.readFileSync(getPlanSchemaPath(kind), 'utf-8')) as Record<string, unknown>;
+}
+
+function describeError(error: ErrorObject): string {
+  if (error.propertyName) return `invalid name "${error.propertyName}": ${error.message ?? 'is invalid'}`;
+
+  switch (error.keyword) {
+    case 'additionalProperties':
+      return `unknown property "${(error.params as { additionalProperty: string }).additionalProperty}"`;
+    case 'enum':
+      return `${error.message ?? 'invalid value'}: ${(error.params as { allowedValues: unknown[] }).allowedValues.join(
+        ', '
+      )}`;
+    default:
+      return error.message ?? 'is invalid';
+  }
+}
+
+/**
+ * Validates a parsed plan against its published JSON Schema.
+ */
+export function validateAgainstSchema(kind: PlanKind, data: unknown): SchemaIssue[] {
+  let validate = validators.get(kind);
+  if (!validate) {
+    validate = new Ajv({ allErrors: true, strict: false }).compile(loadPlanSchema(kind));
+    validators.set(kind, validate);
+  }
+
+  if (validate(data)) return [];
+
+  return (validate.errors ?? [])
+    // if and propertyNames wrap errors that are reported on their own
+    .filter((error) => error.keyword !== 'if' && error.keyword !== 'propertyNames')
+    .map((error) => ({ pointer: error.instancePath || '/', message: describeError(error) }));
+}
+
+/**
+ * Plan file visitor that warns about every schema issue in a file, located as
+ * `file#/pointer`, then throws so composition stops at the first invalid file.
+ */
+export function checkPlanFileSchema(kind: PlanKind, warn: (msg: string) => void): PlanFileVisitor {
+  return (file, raw) => {
+    const issues = validateAgainstSchema(kind, raw);
+    if (!issues.length) return;
+
+    for (const issue of issues) {
+      warn(`${describePlanSource({ file, pointer: issue.pointer })}: ${issue.message}`);
+    }
+    throw new Error(`❌ ${describePlanSource({ file, pointer: '' })} does not match the ${kind} plan schema.`);
+  };
+}
@@ -0,0 +1,170 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { DescribeSObjectResult } from '@jsforce/jsforce-node';
+
+// Clauses that may follow FROM, in the order SOQL requires them
+export const SOQL_CLAUSES = [
+  'USING SCOPE',
+  'WHERE',
+  'WITH',
+  'GROUP BY',
+  'HAVING',
+  'ORDER BY',
+  'LIMIT',
+  'OFFSET',
+  'FOR',
+] as const;
+
+export type SoqlClause = (typeof SOQL_CLAUSES)[number];
+
+export type ParsedSoql = {
+  fields: string[]; // Select list entries as written, e.g. Name, Account.External_Id__c or FIELDS(ALL)
+  sobject: string;
+  clauses: Partial<Record<SoqlClause, string>>; // Clause bodies as written, without their keyword
+};
+
+const CLAUSE_PATTERN = /\b(USING\s+SCOPE|WHERE|WITH|GROUP\s+BY|HAVING|ORDER\s+BY|LIMIT|OFFSET|FOR)\b/gi;
+
+const FIELDS_FUNCTION_PATTERN = /^FIELDS\(\s*(ALL|CUSTOM|STANDARD)\s*\)$/i;
+
+/**
+ * Blanks out string literals and everything inside parentheses, keeping the length, so
+ * keywords and commas can be searched for at the top level of the query only.
+ */
+function maskNested(soql: string): string {
+  let masked = '';
+  let depth = 0;
+  let quoted = false;
+
+  for (let i = 0; i < soql.length; i++) {
+    const char = soql[i];
+    if (quoted) {
+      if (char === '\\') {
+        masked += '__';
+        i++;
+        continue;
+      }
+      if (char === "'") quoted = false;
+      masked += '_';
+    } else if (char === "'") {
+      quoted = true;
+      masked += '_';
+    } else if (char === '(') {
+      depth++;
+      masked += depth === 1 ? char : '_';
+    } else if (char === ')') {
+      depth--;
+      masked += depth === 0 ? char : '_';
+    } else {
+      masked += depth > 0 ? '_' : char;
+    }
+  }
+
+  if (quoted || depth !== 0) throw new Error('has an unterminated string or parenthesis');
+  return masked;
+}
+
+function splitSelectList(list: string, masked: string): string[] {
+  const fields: string[] = [];
+  let start = 0;
+  for (let i = 0; i <= masked.length; i++) {
+    if (i === masked.length || masked[i] === ',') {
+      fields.push(list.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  return fields;
+}
+
+function parseClauses(rest: string, masked: string): ParsedSoql['clauses'] {
+  const found = [...masked.matchAll(CLAUSE_PATTERN)].map((match) => ({
+    clause: match[1].toUpperCase().replace(/\s+/, ' ') as SoqlClause,
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+  if (found.length && rest.slice(0, found[0].start).trim()) {
+    throw new Error(`has unexpected text "${rest.slice(0, found[0].start).trim()}" after FROM`);
+  }
+
+  const clauses: ParsedSoql['clauses'] = {};
+  found.forEach(({ clause, end }, index) => {
+    const previous = index ? SOQL_CLAUSES.indexOf(found[index - 1].clause) : -1;
+    if (SOQL_CLAUSES.indexOf(clause) <= previous) throw new Error(`has ${clause} out of place`);
+
+    const body = rest.slice(end, found[index + 1]?.start ?? rest.length).trim();
+    if (!body) throw new Error(`has an empty ${clause} clause`);
+    clauses[clause] = body;
+  });
+
+  return clauses;
+}
+
+/**
+ * Splits a SOQL query into its select list, object and clauses. String literals and
+ * parenthesized expressions (FIELDS(...), subqueries, IN lists) are kept as written.
+ */
+export function parseSoql(soql: string): ParsedSoql {
+  try {
+    const masked = maskNested(soql);
+
+    const select = /^\s*SELECT\s/i.exec(masked);
+    const from = /\sFROM\s+(\w+)/i.exec(masked);
+    if (!select || !from || from.index < select[0].length) throw new Error('must be SELECT <fields> FROM <object>');
+
+    const listEnd = from.index;
+    const fields = splitSelectList(soql.slice(select[0].length, listEnd), masked.slice(select[0].length, listEnd));
+    if (fields.some((field) => !field)) throw new Error('has an empty entry in its select list');
+
+    const restStart = from.index + from[0].length;
+    return {
+      fields,
+      sobject: from[1],
+      clauses: parseClauses(soql.slice(restStart), masked.slice(restStart)),
+    };
+  } catch (err) {
+    throw new Error(`Invalid SOQL "${soql}": query ${(err as Error).message}.`);
+  }
+}
+
+export function buildSoql(query: ParsedSoql): string {
+  const clauses = SOQL_CLAUSES.filter((clause) => query.clauses[clause] !== undefined).map(
+    (clause) => ` ${clause} ${query.clauses[clause] as string}`
+  );
+
+  return `SELECT ${query.fields.join(', ')} FROM ${query.sobject}${clauses.join('')}`;
+}
+
+/**
+ * Replaces FIELDS(ALL), FIELDS(CUSTOM) and FIELDS(STANDARD) with the field names they
+ * stand for, so they can be filtered like any other field and need no LIMIT 200.
+ */
+export function expandFieldsFunctions(fields: string[], describe: DescribeSObjectResult): string[] {
+  const expanded = fields.flatMap((field) => {
+    const scope = FIELDS_FUNCTION_PATTERN.exec(field)?.[1].toUpperCase();
+    if (!scope) return [field];
+
+    return describe.fields.filter((f) => scope === 'ALL' || (scope === 'CUSTOM') === f.custom).map((f) => f.name);
+  });
+
+  const seen = new Set<string>();
+  return expanded.filter((field) => {
+    const key = field.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Lowers the query's LIMIT to `max`, or adds one when the query has none
+export function capLimit(query: ParsedSoql, max: number): ParsedSoql {
+  const limit = Number(query.clauses.LIMIT);
+  if (query.clauses.LIMIT !== undefined && Number.isInteger(limit) && limit <= max) return query;
+
+  return { ...query, clauses: { ...query.clauses, LIMIT: String(max) } };
+}
@@ -0,0 +1,45 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { DescribeSObjectResult } from '@jsforce/jsforce-node';
+import { Connection } from '@salesforce/core';
+import { FieldValue } from '../types/index.js';
+
+export type QueryPage = {
+  records: Array<Record<string, FieldValue>>;
+  totalSize: number;
+};
+
+/**
+ * Where a migration reads its records and schema from: a source org, or a bundle
+ * written by `seeder data export`.
+ */
+export type MigrationSource = {
+  describe: (sobject: string) => Promise<DescribeSObjectResult>;
+  query: (soql: string) => AsyncGenerator<QueryPage>;
+};
+
+/**
+ * Yields the query results one batch at a time, following `nextRecordsUrl` with queryMore
+ * until the org reports the query as done.
+ */
+export async function* queryPages(conn: Connection, soql: string): AsyncGenerator<QueryPage> {
+  let page = await conn.query<Record<string, FieldValue>>(soql, { autoFetch: false });
+  yield { records: page.records, totalSize: page.totalSize };
+
+  while (!page.done && page.nextRecordsUrl) {
+    // eslint-disable-next-line no-await-in-loop
+    page = await conn.queryMore<Record<string, FieldValue>>(page.nextRecordsUrl);
+    yield { records: page.records, totalSize: page.totalSize };
+  }
+}
+
+export function orgSource(conn: Connection): MigrationSource {
+  return {
+    describe: (sobject) => conn.sobject(sobject).describe(),
+    query: (soql) => queryPages(conn, soql),
+  };
+}
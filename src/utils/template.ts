@@ -0,0 +1,147 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { FieldValue } from '../types/index.js';
+import { parseDistributionExpression } from './distribution.js';
+
+// A token's expression is the text between #{ and }, its raw form includes the delimiters
+export type TemplatePart = { kind: 'literal'; text: string } | { kind: 'token'; expression: string; raw: string };
+
+export function hasTemplateTokens(value: string): boolean {
+  return value.includes('#{');
+}
+
+/**
+ * Splits a field value into literal text and `#{...}` tokens. Braces and quotes
+ * inside a token are balanced, so faker arguments such as `{ min: 1 }` stay
+ * part of their token. Throws when a token is never closed.
+ */
+export function parseTemplate(value: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let literal = '';
+  let i = 0;
+
+  while (i < value.length) {
+    if (value[i] !== '#' || value[i + 1] !== '{') {
+      literal += value[i];
+      i++;
+      continue;
+    }
+
+    const end = findTokenEnd(value, i + 2);
+    if (end === -1) {
+      throw new Error(`Unterminated token starting at "${value.slice(i)}"`);
+    }
+
+    if (literal) parts.push({ kind: 'literal', text: literal });
+    literal = '';
+
+    const raw = value.slice(i, end + 1);
+    parts.push({ kind: 'token', expression: raw.slice(2, -1).trim(), raw });
+    i = end + 1;
+  }
+
+  if (literal) parts.push({ kind: 'literal', text: literal });
+  return parts;
+}
+
+function findTokenEnd(value: string, start: number): number {
+  let depth = 1;
+  let quote: string | null = null;
+
+  for (let i = start; i < value.length; i++) {
+    const char = value[i];
+
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') quote = char;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) return i;
+  }
+
+  return -1;
+}
+
+/**
+ * Resolves every token of a parsed template. A value made of a single token
+ * keeps the resolved type (e.g. a number); anything else is joined into a string.
+ */
+export function renderTemplate(
+  parts: TemplatePart[],
+  resolveToken: (expression: string, raw: string) => FieldValue
+): FieldValue {
+  if (parts.length === 1 && parts[0].kind === 'token') {
+    return resolveToken(parts[0].expression, parts[0].raw);
+  }
+
+  return parts
+    .map((part) => {
+      if (part.kind === 'literal') return part.text;
+      const resolved = resolveToken(part.expression, part.raw);
+      return resolved === null ? '' : String(resolved);
+    })
+    .join('');
+}
+
+/**
+ * Lists the fields a value reads from its own record through `#{this.Field}` and `#{pickBy(...)}` tokens.
+ */
+export function getSelfReferences(value: FieldValue): string[] {
+  if (typeof value !== 'string' || !hasTemplateTokens(value)) return [];
+
+  let parts: TemplatePart[];
+  try {
+    parts = parseTemplate(value);
+  } catch {
+    return [];
+  }
+
+  return parts.flatMap((part) => {
+    if (part.kind !== 'token') return [];
+    if (part.expression.startsWith('this.')) return [part.expression.slice(5).trim()];
+
+    // pickBy() reads its controlling field from the same record
+    try {
+      const distribution = parseDistributionExpression(part.expression);
+      return distribution?.kind === 'pickBy' ? [distribution.controller] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Orders a record's fields so every field comes after the fields it reads
+ * through `#{this.Field}`. Throws when the fields depend on each other in a cycle.
+ */
+export function orderFieldsBySelfReferences(fields: Record<string, FieldValue>): string[] {
+  const ordered: string[] = [];
+  const visited = new Set<string>();
+  const visiting: string[] = [];
+
+  const visit = (field: string): void => {
+    if (visited.has(field) || !(field in fields)) return;
+
+    if (visiting.includes(field)) {
+      const cycle = [...visiting.slice(visiting.indexOf(field)), field];
+      throw new Error(`Circular #{this.*} references: ${cycle.join(' -> ')}`);
+    }
+
+    visiting.push(field);
+    getSelfReferences(fields[field]).forEach(visit);
+    visiting.pop();
+
+    visited.add(field);
+    ordered.push(field);
+  };
+
+  Object.keys(fields).forEach(visit);
+  return ordered;
+}
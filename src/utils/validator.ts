@@ -5,8 +5,13 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 import { Connection } from '@salesforce/core';
-import { FieldValue, SeedingStep } from '../types/index.js';
-import { isValidFakerExpression, suggestFakerAlternative } from './faker.js';
+import { FieldValue, MigrationPlan, SeedingStep } from '../types/index.js';
+import { getFakerExpressionError, suggestFakerAlternative } from './faker.js';
+import { parseDistributionExpression } from './distribution.js';
+import { parseRecordTypeExpression } from './recordType.js';
+import { hasTemplateTokens, orderFieldsBySelfReferences, parseTemplate, TemplatePart } from './template.js';
+import { getReferenceKey, isReference, parseReference, REFERENCE_KEY_PATTERN } from './reference.js';
+import { formatEntryLabel } from './plan.js';
 
 export async function validateMetadata(
   plan: SeedingStep[],
@@ -16,15 +21,16 @@ export async function validateMetadata(
 ): Promise<boolean> {
   let hasError = false;
 
-  const referenceMap = new Map<string, boolean>();
+  const referenceMap = new Map<string, string>(); // Reference key -> SObject
   const prefixMap = new Map<string, string>();
   const describedObjects = new Map<string, unknown>();
 
   plan.forEach((step) => {
-    if (step.saveRefs) referenceMap.set(step.sobject, true);
+    if (step.saveRefs) referenceMap.set(getReferenceKey(step), step.sobject);
   });
 
   for (const [index, step] of plan.entries()) {
+    const label = formatEntryLabel('Step', step, index);
     let objectDescribe;
     try {
       // eslint-disable-next-line no-await-in-loop
@@ -34,7 +40,7 @@ export async function validateMetadata(
         prefixMap.set(objectDescribe.keyPrefix, objectDescribe.name);
       }
     } catch (err) {
-      warn(`Step ${index + 1}: SObject "${step.sobject}" does not exist in org.`);
+      warn(`${label}: SObject "${step.sobject}" does not exist in org.`);
       hasError = true;
       continue;
     }
@@ -45,7 +51,7 @@ export async function validateMetadata(
       const fieldMeta = objectDescribe.fields.find((f) => f.name === field);
 
       if (!fieldMeta) {
-        warn(`Step ${index + 1}: Field "${field}" does not exist on ${step.sobject}`);
+        warn(`${label}: Field "${field}" does not exist on ${step.sobject}`);
         hasError = true;
       } else {
         for (const objName of fieldMeta.referenceTo ?? []) {
@@ -58,19 +64,20 @@ export async function validateMetadata(
                 prefixMap.set(desc.keyPrefix, desc.name);
               }
             } catch (err) {
-              warn(`Step ${index + 1}: Could not describe "${objName}" for ID validation.`);
+              warn(`${label}: Could not describe "${objName}" for ID validation.`);
             }
           }
         }
 
         const valid = validateFieldValueType(
-          `Step ${index + 1}`,
+          label,
           field,
           value,
           fieldMeta.type,
           fieldMeta.referenceTo ?? [],
           prefixMap,
-          warn
+          warn,
+          referenceMap
         );
 
         if (!valid) {
@@ -83,55 +90,106 @@ export async function validateMetadata(
   return !hasError;
 }
 
+/**
+ * Checks a migration plan once includes, extends and variables are resolved, as an object's
+ * operation and externalId may be set in different files.
+ */
+export function validateMigrationPlan(plan: MigrationPlan, warn: (msg: string) => void): boolean {
+  let hasError = false;
+
+  for (const [index, obj] of plan.objects.entries()) {
+    if (obj.operation === 'Upsert' && !obj.externalId) {
+      warn(`${formatEntryLabel('Object', obj, index)}: Upsert needs an "externalId" to match records on`);
+      hasError = true;
+    }
+  }
+
+  return !hasError;
+}
+
 export function validatePlanStructure(plan: SeedingStep[], warn: (msg: string) => void): boolean {
   let hasError = false;
 
   const referenceMap = new Map<string, boolean>();
   plan.forEach((step) => {
-    if (step.saveRefs) referenceMap.set(step.sobject, true);
+    if (step.saveRefs) referenceMap.set(getReferenceKey(step), true);
   });
 
+  const aliasSteps = new Map<string, number>();
+
   for (const [index, step] of plan.entries()) {
+    const label = formatEntryLabel('Step', step, index);
     if (!step.sobject || typeof step.sobject !== 'string') {
-      warn(`Step ${index + 1}: Missing or invalid "sobject"`);
+      warn(`${label}: Missing or invalid "sobject"`);
       hasError = true;
     }
 
+    if (step.ref !== undefined) {
+      if (typeof step.ref !== 'string' || !REFERENCE_KEY_PATTERN.test(step.ref)) {
+        warn(`${label}: Invalid "ref" "${String(step.ref)}". Use letters, digits and underscores only.`);
+        hasError = true;
+      } else if (aliasSteps.has(step.ref)) {
+        warn(`${label}: "ref" "${step.ref}" is already used by step ${aliasSteps.get(step.ref)!}.`);
+        hasError = true;
+      } else {
+        aliasSteps.set(step.ref, index + 1);
+      }
+    }
+
     if (!step.count || typeof step.count !== 'number') {
-      warn(`Step ${index + 1}: Missing or invalid "count"`);
+      warn(`${label}: Missing or invalid "count"`);
       hasError = true;
     }
 
     if (!step.fields || typeof step.fields !== 'object') {
-      warn(`Step ${index + 1}: Missing or invalid "fields"`);
+      warn(`${label}: Missing or invalid "fields"`);
       hasError = true;
     } else {
+      if (!validateNullRate(label, step, warn)) {
+        hasError = true;
+      }
+
+      try {
+        orderFieldsBySelfReferences(step.fields);
+      } catch (err) {
+        warn(`${label}: ${(err as Error).message}`);
+        hasError = true;
+      }
+
       Object.keys(step.fields).forEach((field) => {
         const value = step.fields[field];
 
-        if (typeof value === 'string' && value.startsWith('@{') && value.endsWith('}')) {
-          const [refObj, refField] = value.slice(2, -1).split('.');
-          if (!refObj || !refField) {
-            warn(`Step ${index + 1}: Invalid reference "${value}"`);
-            hasError = true;
-          } else if (!referenceMap.has(refObj)) {
-            warn(`Step ${index + 1}: Reference "${refObj}" not found in plan.`);
+        if (isReference(value)) {
+          try {
+            const reference = parseReference(value);
+            if (reference && !referenceMap.has(reference.key)) {
+              warn(`${label}: Reference "${reference.key}" not found in plan.`);
+              hasError = true;
+            }
+          } catch (err) {
+            warn(`${label}: ${(err as Error).message}`);
             hasError = true;
           }
         }
 
-        // Replace #{faker.*.*}
-        if (typeof value === 'string' && value.startsWith('#{faker.') && value.endsWith('}')) {
-          if (!isValidFakerExpression(value)) {
-            let message = `Step ${index + 1}: Field "${field}" has invalid faker expression: "${value}"`;
+        // Check every #{...} token, whether it is the whole value or embedded in text
+        if (typeof value === 'string' && hasTemplateTokens(value)) {
+          let parts: TemplatePart[] = [];
+          try {
+            parts = parseTemplate(value);
+          } catch (err) {
+            warn(`${label}: Field "${field}" has an invalid template "${value}": ${(err as Error).message}`);
+            hasError = true;
+          }
 
-            const suggestion = suggestFakerAlternative(value);
-            if (suggestion) {
-              message += `\n  👉 Did you mean: "${suggestion}"?`;
-            }
+          for (const part of parts) {
+            if (part.kind !== 'token') continue;
 
-            warn(message);
-            hasError = true;
+            const message = validateTemplateToken(label, field, part.expression, step.fields);
+            if (message) {
+              warn(message);
+              hasError = true;
+            }
           }
         }
       });
@@ -141,6 +199,72 @@ export function validatePlanStructure(plan: SeedingStep[], warn: (msg: string) =
   return !hasError;
 }
 
+function validateNullRate(stepLabel: string, step: SeedingStep, warn: (msg: string) => void): boolean {
+  if (step.nullRate === undefined) return true;
+
+  if (!step.nullRate || typeof step.nullRate !== 'object' || Array.isArray(step.nullRate)) {
+    warn(`${stepLabel}: "nullRate" must be an object of field names to probabilities`);
+    return false;
+  }
+
+  let valid = true;
+  for (const [field, rate] of Object.entries(step.nullRate)) {
+    if (!(field in step.fields)) {
+      warn(`${stepLabel}: "nullRate" lists "${field}", which is not a field of this step`);
+      valid = false;
+    } else if (typeof rate !== 'number' || rate < 0 || rate > 1) {
+      warn(`${stepLabel}: "nullRate" for "${field}" must be a number between 0 and 1`);
+      valid = false;
+    }
+  }
+
+  return valid;
+}
+
+function validateTemplateToken(
+  step: string,
+  field: string,
+  expression: string,
+  fields: Record<string, FieldValue>
+): string | null {
+  if (expression === 'counter') return null;
+
+  if (expression.startsWith('this.')) {
+    const target = expression.slice(5).trim();
+    return target in fields
+      ? null
+      : `${step}: Field "${field}" references "${target}", which is not a field of this step`;
+  }
+
+  try {
+    const distribution = parseDistributionExpression(expression);
+    if (distribution?.kind === 'pickBy' && !(distribution.controller in fields)) {
+      return `${step}: Field "${field}" depends on "${distribution.controller}", which is not a field of this step`;
+    }
+    if (distribution) return null;
+    if (parseRecordTypeExpression(expression)) return null;
+  } catch (err) {
+    return `${step}: Field "${field}" has invalid expression "#{${expression}}": ${(err as Error).message}`;
+  }
+
+  if (expression.startsWith('faker.')) {
+    const token = `#{${expression}}`;
+    const fakerError = getFakerExpressionError(token);
+    if (!fakerError) return null;
+
+    let message = `${step}: Field "${field}" has invalid faker expression: "${token}" (${fakerError})`;
+
+    const suggestion = suggestFakerAlternative(token);
+    if (suggestion) {
+      message += `\n  👉 Did you mean: "${suggestion}"?`;
+    }
+
+    return message;
+  }
+
+  return `${step}: Field "${field}" has unknown token "#{${expression}}"`;
+}
+
 export function validateFieldValueType(
   step: string,
   field: string,
@@ -148,12 +272,17 @@ export function validateFieldValueType(
   type: string,
   referenceTo: string[],
   prefixMap: Map<string, string>,
-  warn: (msg: string) => void
+  warn: (msg: string) => void,
+  referenceKeys: Map<string, string> = new Map<string, string>()
 ): boolean {
   if (value === null) return true;
 
   const valueStr = String(value);
 
+  // Templated values are only known at run time, and so are values copied from a parent record
+  if (typeof value === 'string' && hasTemplateTokens(value)) return true;
+  if (type !== 'reference' && isReference(value)) return true;
+
   switch (type) {
     case 'boolean':
       if (typeof value !== 'boolean') {
@@ -187,7 +316,7 @@ export function validateFieldValueType(
       }
       break;
     case 'reference':
-      return validateReference(step, field, valueStr, referenceTo, prefixMap, warn);
+      return validateReference(step, field, valueStr, referenceTo, prefixMap, warn, referenceKeys);
   }
 
   return true;
@@ -199,11 +328,19 @@ function validateReference(
   value: string,
   referenceTo: string[],
   prefixMap: Map<string, string>,
-  warn: (msg: string) => void
+  warn: (msg: string) => void,
+  referenceKeys: Map<string, string>
 ): boolean {
-  if (value.startsWith('@{') && value.endsWith('}')) {
-    const refObj = value.slice(2, -1).split('.')[0];
-    if (!referenceTo.includes(refObj)) {
+  if (isReference(value)) {
+    let refObj: string | undefined;
+    try {
+      const key = parseReference(value)?.key;
+      refObj = key ? referenceKeys.get(key) ?? key : undefined;
+    } catch (err) {
+      warn(`${step}: ${(err as Error).message}`);
+      return false;
+    }
+    if (!refObj || !referenceTo.includes(refObj)) {
       warn(`${step}: Invalid reference on field "${field}". Expected ${referenceTo.join(', ')}`);
       return false;
     }
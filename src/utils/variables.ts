@@ -0,0 +1,144 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import JSON5 from 'json5';
+import { FieldValue } from '../types/index.js';
+import { copyPlanSource, formatEntryLabel, readPlanFile } from './plan.js';
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const VARIABLE_TOKEN_PATTERN = /\$\{var\.([^}]*)\}/g;
+
+/**
+ * Reads a `--var` value as JSON5 when it is a number, boolean, null or quoted string, so
+ * `--var count=5` is the number 5 like `count: 5` in a variables file. Anything else,
+ * e.g. `EMEA` or `2025-12-31`, is kept as the text it is.
+ */
+function parseVarValue(raw: string): FieldValue {
+  let parsed: unknown;
+  try {
+    parsed = JSON5.parse(raw);
+  } catch {
+    return raw;
+  }
+  if (typeof parsed === 'number') return Number.isFinite(parsed) ? parsed : raw;
+  return parsed === null || typeof parsed === 'boolean' || typeof parsed === 'string' ? parsed : raw;
+}
+
+/**
+ * Parses `--var name=value` flags, typing numbers, booleans and null like a variables file.
+ */
+export function parseVarFlags(entries: string[]): Record<string, FieldValue> {
+  const variables: Record<string, FieldValue> = {};
+
+  for (const entry of entries) {
+    const separator = entry.indexOf('=');
+    const name = entry.slice(0, separator).trim();
+    if (separator === -1 || !VARIABLE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid --var "${entry}". Expected name=value.`);
+    }
+    variables[name] = parseVarValue(entry.slice(separator + 1));
+  }
+
+  return variables;
+}
+
+/**
+ * Reads a `--vars-file`: a JSON, JSON5 or YAML object of variable names to values.
+ */
+export function readVarsFile(filePath: string): Record<string, FieldValue> {
+  const raw = readPlanFile(filePath);
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Variables file ${filePath} must contain an object of names to values.`);
+  }
+
+  for (const [name, value] of Object.entries(raw)) {
+    if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+      throw new Error(`Variable "${name}" in ${filePath} must be a string, number, boolean or null.`);
+    }
+  }
+
+  return raw as Record<string, FieldValue>;
+}
+
+/**
+ * Combines the plan's variables with `--vars-file` and `--var`, later sources winning.
+ */
+export function collectVariables(
+  planVariables: Record<string, FieldValue> | undefined,
+  varsFile: string | undefined,
+  varFlags: string[] | undefined
+): Record<string, FieldValue> {
+  return {
+    ...planVariables,
+    ...(varsFile ? readVarsFile(varsFile) : {}),
+    ...parseVarFlags(varFlags ?? []),
+  };
+}
+
+function substitute(
+  value: unknown,
+  variables: Record<string, FieldValue>,
+  onUndefined: (name: string, location: string) => void,
+  location: string
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, i) => substitute(item, variables, onUndefined, `${location}[${i}]`));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        substitute(item, variables, onUndefined, location ? `${location}.${key}` : key),
+      ])
+    );
+  }
+
+  if (typeof value !== 'string' || !value.includes('${var.')) return value;
+
+  // A value that is only one token keeps the variable's type, e.g. a number or boolean
+  const single = /^\$\{var\.([^}]*)\}$/.exec(value);
+  if (single && Object.hasOwn(variables, single[1])) return variables[single[1]];
+
+  return value.replace(VARIABLE_TOKEN_PATTERN, (token, name: string) => {
+    if (!Object.hasOwn(variables, name)) {
+      onUndefined(name, location);
+      return token;
+    }
+    const resolved = variables[name];
+    return resolved === null ? '' : String(resolved);
+  });
+}
+
+/**
+ * Replaces `${var.name}` tokens in every string of the plan's steps or migration objects,
+ * before any `#{...}` or `@{...}` processing. Tokens naming an undefined variable are
+ * left as they are and reported through `warn`.
+ */
+export function resolveVariables<T extends object>(
+  noun: string,
+  entries: T[],
+  variables: Record<string, FieldValue>,
+  warn: (msg: string) => void
+): { entries: T[]; valid: boolean } {
+  let valid = true;
+
+  const resolved = entries.map((entry, index) => {
+    const result = substitute(
+      entry,
+      variables,
+      (name, location) => {
+        warn(`${formatEntryLabel(noun, entry, index)}: Undefined variable "${name}" in "${location}".`);
+        valid = false;
+      },
+      ''
+    ) as T;
+    copyPlanSource(entry, result);
+    return result;
+  });
+
+  return { entries: resolved, valid };
+}
@@ -0,0 +1,191 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
+import { Connection } from '@salesforce/core';
+import { expect } from 'chai';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import SeederDataExport from '../../../../src/commands/seeder/data/export.js';
+import SeederDataImport from '../../../../src/commands/seeder/data/import.js';
+import { DataBundle, IdMapStore } from '../../../../src/types/index.js';
+
+describe('seeder data export and import', () => {
+  const $$ = new TestContext();
+  const testOrg = new MockTestOrgData();
+  let tmp: string;
+  let dir: string;
+  let planPath: string;
+  let inserts: Array<{ sobject: string; records: Array<Record<string, unknown>> }>;
+
+  beforeEach(async () => {
+    stubSfCommandUx($$.SANDBOX);
+    await $$.stubAuths(testOrg);
+    $$.SANDBOX.stub(Connection.prototype, 'identity').resolves({ username: testOrg.username } as never);
+
+    inserts = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method, body } =
+        typeof request === 'string'
+          ? { url: request, method: 'GET', body: '' }
+          : (request as { url: string; method: string; body: string });
+      if (url.includes('/describe')) {
+        const account = url.includes('/Account/');
+        return Promise.resolve({
+          name: account ? 'Account' : 'Contact',
+          keyPrefix: account ? '001' : '003',
+          fields: account
+            ? [
+                { name: 'Name', type: 'string', updateable: true },
+                { name: 'NumberOfEmployees', type: 'int', updateable: true },
+              ]
+            : [
+                { name: 'LastName', type: 'string', updateable: true },
+                { name: 'Email', type: 'email', updateable: true },
+                { name: 'AccountId', type: 'reference', updateable: true, referenceTo: ['Account'] },
+              ],
+        });
+      }
+      if (method === 'POST') {
+        const { records } = JSON.parse(body) as { records: Array<{ attributes: { type: string } }> };
+        const sobject = records[0].attributes.type;
+        inserts.push({ sobject, records });
+        const prefix = sobject === 'Account' ? '001' : '003';
+        return Promise.resolve(records.map(() => ({ id: `${prefix}T00000000001AAA`, success: true, errors: [] })));
+      }
+      if (url.includes('Organization')) return Promise.resolve({ totalSize: 0, done: true, records: [] });
+
+      const query = decodeURIComponent(url.split('q=')[1]).replace(/\+/g, ' ');
+      return Promise.resolve({
+        totalSize: 1,
+        done: true,
+        records: query.includes('FROM Account')
+          ? [{ attributes: { type: 'Account' }, Id: '001S00000000001AAA', Name: 'Acme, Inc.', NumberOfEmployees: 50 }]
+          : [
+              {
+                attributes: { type: 'Contact' },
+                Id: '003S00000000001AAA',
+                LastName: 'Doe',
+                Email: 'jane@acme.com',
+                AccountId: '001S00000000001AAA',
+              },
+            ],
+      });
+    };
+
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'seeder-'));
+    dir = path.join(tmp, 'bundle');
+    planPath = path.join(tmp, 'plan.json');
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({
+        maskProfile: { email: '#{faker.internet.email}' },
+        objects: [
+          { sobject: 'Contact', query: 'SELECT Id, LastName, Email, AccountId FROM Contact' },
+          { sobject: 'Account', query: 'SELECT Id, Name, NumberOfEmployees FROM Account' },
+        ],
+      })
+    );
+  });
+
+  afterEach(() => {
+    $$.restore();
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  const exportBundle = (...args: string[]) =>
+    SeederDataExport.run([
+      '--source-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--output-dir',
+      dir,
+      '--mask-salt',
+      's3cret',
+      ...args,
+    ]);
+
+  it('writes the records and describes of every object, masked on export', async () => {
+    const result = await exportBundle();
+
+    expect(result.objects).to.deep.equal([
+      {
+        sobject: 'Contact',
+        query: 'SELECT Id, LastName, Email, AccountId FROM Contact',
+        file: 'records/1-Contact.json',
+        records: 1,
+      },
+      {
+        sobject: 'Account',
+        query: 'SELECT Id, Name, NumberOfEmployees FROM Account',
+        file: 'records/2-Account.json',
+        records: 1,
+      },
+    ]);
+
+    const [contact] = JSON.parse(fs.readFileSync(path.join(dir, 'records', '1-Contact.json'), 'utf-8')) as Array<
+      Record<string, unknown>
+    >;
+    expect(contact).to.include({ Id: '003S00000000001AAA', LastName: 'Doe', AccountId: '001S00000000001AAA' });
+    expect(contact).to.not.have.property('attributes');
+    expect(contact.Email).to.be.a('string').and.not.equal('jane@acme.com');
+
+    const bundle = JSON.parse(fs.readFileSync(path.join(dir, 'bundle.json'), 'utf-8')) as DataBundle;
+    expect(bundle.sourceOrg).to.equal(testOrg.orgId);
+    expect(bundle.plan).to.not.have.property('maskProfile');
+    expect(fs.readdirSync(path.join(dir, 'describes')).sort()).to.deep.equal(['Account.json', 'Contact.json']);
+  });
+
+  it('refuses to mask records without a salt', async () => {
+    try {
+      await SeederDataExport.run(['--source-org', testOrg.username, '--plan', planPath, '--output-dir', dir]);
+      expect.fail('expected the export to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('needs a secret --mask-salt');
+    }
+    expect(fs.existsSync(dir)).to.equal(false);
+  });
+
+  it('imports a CSV bundle with its lookups mapped to the new records', async () => {
+    await exportBundle('--format', 'csv');
+    expect(fs.readFileSync(path.join(dir, 'records', '2-Account.csv'), 'utf-8')).to.equal(
+      'Id,Name,NumberOfEmployees\n001S00000000001AAA,"Acme, Inc.",50\n'
+    );
+
+    const idMapPath = path.join(tmp, 'idmap.json');
+    const result = await SeederDataImport.run([
+      '--target-org',
+      testOrg.username,
+      '--bundle',
+      dir,
+      '--id-map',
+      idMapPath,
+    ]);
+
+    expect(result.bundle).to.equal(dir);
+    expect(inserts.map(({ sobject }) => sobject)).to.deep.equal(['Account', 'Contact']);
+    expect(inserts[0].records[0]).to.include({ Name: 'Acme, Inc.', NumberOfEmployees: 50 });
+    expect(inserts[1].records[0]).to.include({ LastName: 'Doe', AccountId: '001T00000000001AAA' });
+    expect((JSON.parse(fs.readFileSync(idMapPath, 'utf-8')) as IdMapStore).idMap).to.deep.equal({
+      Account: { '001S00000000001AAA': '001T00000000001AAA' },
+      Contact: { '003S00000000001AAA': '003T00000000001AAA' },
+    });
+  });
+
+  it('refuses a directory that is not a data bundle', async () => {
+    fs.mkdirSync(dir);
+
+    try {
+      await SeederDataImport.run(['--target-org', testOrg.username, '--bundle', dir]);
+      expect.fail('expected the import to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('is not a data bundle: bundle.json not found');
+    }
+  });
+});
@@ -0,0 +1,89 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
+import { expect } from 'chai';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import SeederDataIdMap from '../../../../src/commands/seeder/data/idmap.js';
+import { IdMapStore } from '../../../../src/types/index.js';
+
+describe('seeder data idmap', () => {
+  const $$ = new TestContext();
+  const testOrg = new MockTestOrgData();
+  let dir: string;
+  let idMapPath: string;
+
+  beforeEach(async () => {
+    stubSfCommandUx($$.SANDBOX);
+    await $$.stubAuths(testOrg);
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seeder-'));
+    idMapPath = path.join(dir, 'idmap.json');
+    fs.writeFileSync(
+      idMapPath,
+      JSON.stringify({
+        sourceOrg: testOrg.orgId,
+        targetOrg: testOrg.orgId,
+        updatedAt: '2025-06-01T10:00:00.000Z',
+        idMap: {
+          Account: { '001S00000000001AAA': '001T00000000001AAA' },
+          Contact: { '003S00000000001AAA': '003T00000000001AAA', '003S00000000002AAA': '003T00000000002AAA' },
+        },
+      })
+    );
+  });
+
+  afterEach(() => {
+    $$.restore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const run = (...args: string[]) =>
+    SeederDataIdMap.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--id-map',
+      idMapPath,
+      ...args,
+    ]);
+
+  it('counts the mapped records per object and exports them as CSV', async () => {
+    const output = path.join(dir, 'contacts.csv');
+    const result = await run('--sobject', 'Contact', '--output', output);
+
+    expect(result.objects).to.deep.equal([{ sobject: 'Contact', mapped: 2 }]);
+    expect(result.updatedAt).to.equal('2025-06-01T10:00:00.000Z');
+    expect(fs.readFileSync(output, 'utf-8')).to.equal(
+      'sobject,sourceId,targetId\nContact,003S00000000001AAA,003T00000000001AAA\nContact,003S00000000002AAA,003T00000000002AAA\n'
+    );
+  });
+
+  it('clears the mappings of one object and keeps the rest', async () => {
+    const result = await run('--sobject', 'Contact', '--clear');
+
+    expect(result.cleared).to.equal(true);
+    expect((JSON.parse(fs.readFileSync(idMapPath, 'utf-8')) as IdMapStore).idMap).to.deep.equal({
+      Account: { '001S00000000001AAA': '001T00000000001AAA' },
+    });
+  });
+
+  it('refuses a store recorded for other orgs', async () => {
+    const store = JSON.parse(fs.readFileSync(idMapPath, 'utf-8')) as IdMapStore;
+    fs.writeFileSync(idMapPath, JSON.stringify({ ...store, targetOrg: '00D000000000000AAA' }));
+
+    try {
+      await run();
+      expect.fail('expected idmap to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('00D000000000000AAA');
+    }
+  });
+});
@@ -4,43 +4,1181 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { TestContext } from '@salesforce/core/testSetup';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
+import { Connection } from '@salesforce/core';
 import { expect } from 'chai';
 import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import { BulkV2 } from '@jsforce/jsforce-node/lib/api/bulk2.js';
 import SeederDataMigrate from '../../../../src/commands/seeder/data/migrate.js';
+import { IdMapStore, MigrationFailureReport, MigrationPreviewReport } from '../../../../src/types/index.js';
 
 describe('seeder data migrate', () => {
   const $$ = new TestContext();
+  const testOrg = new MockTestOrgData();
+  let dir: string;
+  let planPath: string;
+  let idMapPath: string;
   let sfCommandStubs: ReturnType<typeof stubSfCommandUx>;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     sfCommandStubs = stubSfCommandUx($$.SANDBOX);
+    await $$.stubAuths(testOrg);
+    $$.SANDBOX.stub(Connection.prototype, 'identity').resolves({ username: testOrg.username } as never);
+
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method } =
+        typeof request === 'string' ? { url: request, method: 'GET' } : (request as { url: string; method: string });
+      if (url.includes('/describe')) {
+        return Promise.resolve({
+          name: 'Account',
+          keyPrefix: '001',
+          fields: [
+            { name: 'Id', type: 'id', updateable: false },
+            { name: 'Name', type: 'string', updateable: true },
+          ],
+        });
+      }
+      if (method === 'POST') {
+        return Promise.resolve([
+          { id: '001T00000000001AAA', success: true, errors: [] },
+          { success: false, errors: [{ errorCode: 'DUPLICATE_VALUE', message: 'duplicate value found' }] },
+        ]);
+      }
+      return Promise.resolve({
+        totalSize: 2,
+        done: true,
+        records: [
+          { attributes: { type: 'Account' }, Id: '001S00000000001AAA', Name: 'Acme' },
+          { attributes: { type: 'Account' }, Id: '001S00000000002AAA', Name: 'Globex' },
+        ],
+      });
+    };
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seeder-'));
+    planPath = path.join(dir, 'plan.json');
+    idMapPath = path.join(dir, 'idmap.json');
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({ objects: [{ sobject: 'Account', query: 'SELECT Id, Name FROM Account' }] })
+    );
   });
 
   afterEach(() => {
     $$.restore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns source to target ID mappings and failures per object', async () => {
+    const failuresPath = path.join(dir, 'failures.json');
+    const result = await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+      '--failures',
+      failuresPath,
+    ]);
+
+    expect(result.objects).to.deep.equal([
+      {
+        sobject: 'Account',
+        operation: 'Insert',
+        retrieved: 2,
+        succeeded: 1,
+        failed: 1,
+        idMap: { '001S00000000001AAA': '001T00000000001AAA' },
+        failures: [{ sourceId: '001S00000000002AAA', errors: ['duplicate value found'] }],
+      },
+    ]);
+    expect(result.failures).to.equal(failuresPath);
+
+    const report = JSON.parse(fs.readFileSync(failuresPath, 'utf-8')) as MigrationFailureReport;
+    expect(report.idMap).to.deep.equal({ Account: { '001S00000000001AAA': '001T00000000001AAA' } });
+    expect(report).to.include({ idMapStore: idMapPath, sourceOrg: testOrg.orgId });
+    expect(report.failures).to.deep.equal([
+      {
+        step: 1,
+        sobject: 'Account',
+        operation: 'Insert',
+        sourceId: '001S00000000002AAA',
+        payload: { Name: 'Globex' },
+        lookups: {},
+        errors: [{ code: 'DUPLICATE_VALUE', message: 'duplicate value found' }],
+      },
+    ]);
+    expect(fs.readFileSync(path.join(dir, 'failures.csv'), 'utf-8')).to.include(
+      'DUPLICATE_VALUE,DUPLICATE_VALUE: duplicate value found,Globex'
+    );
+  });
+
+  it('writes the failure report when a later object fails the migration', async () => {
+    const failuresPath = path.join(dir, 'failures.json');
+    const fakeRequest = $$.fakeConnectionRequest.bind($$);
+    $$.fakeConnectionRequest = (request, options) => {
+      const url = typeof request === 'string' ? request : (request as { url: string }).url;
+      if (url.includes('FROM+Contact') || url.includes('FROM%20Contact')) {
+        return Promise.reject(new Error('QUERY_TIMEOUT: Your query request was running for too long.'));
+      }
+      return fakeRequest(request, options);
+    };
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({
+        objects: [
+          { sobject: 'Account', query: 'SELECT Id, Name FROM Account' },
+          { sobject: 'Contact', query: 'SELECT Id, Name FROM Contact' },
+        ],
+      })
+    );
+
+    try {
+      await SeederDataMigrate.run([
+        '--source-org',
+        testOrg.username,
+        '--target-org',
+        testOrg.username,
+        '--plan',
+        planPath,
+        '--id-map',
+        idMapPath,
+        '--failures',
+        failuresPath,
+      ]);
+      expect.fail('expected the migration to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('Error with Contact: QUERY_TIMEOUT');
+    }
+
+    const report = JSON.parse(fs.readFileSync(failuresPath, 'utf-8')) as MigrationFailureReport;
+    expect(report.failures.map((f) => f.sourceId)).to.deep.equal(['001S00000000002AAA']);
+    expect(report.idMap).to.deep.equal({ Account: { '001S00000000001AAA': '001T00000000001AAA' } });
+  });
+
+  it('matches Bulk API 2.0 results back to their source records', async () => {
+    const load = $$.SANDBOX.stub(BulkV2.prototype, 'loadAndWaitForResults').resolves({
+      // Bulk API 2.0 returns results in any order
+      // eslint-disable-next-line camelcase
+      successfulResults: [{ sf__Created: 'true', sf__Id: '001T00000000002AAA', Name: 'Globex' }],
+      // eslint-disable-next-line camelcase
+      failedResults: [{ sf__Id: '', sf__Error: 'DUPLICATE_VALUE:duplicate value found', Name: 'Acme' }],
+      unprocessedRecords: [],
+    } as never);
+
+    const result = await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+      '--failures',
+      path.join(dir, 'failures.json'),
+      '--api',
+      'bulk2',
+    ]);
+
+    expect(load.firstCall.args[0]).to.deep.include({ object: 'Account', operation: 'insert' });
+    expect(result.objects[0]).to.deep.include({
+      idMap: { '001S00000000002AAA': '001T00000000002AAA' },
+      failures: [{ sourceId: '001S00000000001AAA', errors: ['duplicate value found'] }],
+    });
+  });
+
+  it('migrates every query batch and caps records with maxRecords', async () => {
+    const queries: string[] = [];
+    let inserted = 0;
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method, body } =
+        typeof request === 'string'
+          ? { url: request, method: 'GET', body: '' }
+          : (request as { url: string; method: string; body: string });
+      if (url.includes('/describe')) {
+        return Promise.resolve({
+          name: 'Account',
+          keyPrefix: '001',
+          fields: [{ name: 'Name', type: 'string', updateable: true }],
+        });
+      }
+      if (method === 'POST') {
+        const { records } = JSON.parse(body) as { records: unknown[] };
+        return Promise.resolve(
+          records.map(() => ({ id: `001T0000000000${++inserted}AAA`, success: true, errors: [] }))
+        );
+      }
+      if (!url.includes('Organization')) queries.push(decodeURIComponent(url));
+      // The first batch points at the rest of the results, as a source org does past 2,000 rows
+      return Promise.resolve(
+        url.includes('01gNEXT-1')
+          ? {
+              totalSize: 2,
+              done: true,
+              records: [{ attributes: { type: 'Account' }, Id: '001S00000000002AAA', Name: 'Globex' }],
+            }
+          : {
+              totalSize: 2,
+              done: false,
+              nextRecordsUrl: '/services/data/v58.0/query/01gNEXT-1',
+              records: [{ attributes: { type: 'Account' }, Id: '001S00000000001AAA', Name: 'Acme' }],
+            }
+      );
+    };
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({ objects: [{ sobject: 'Account', query: 'SELECT Id, Name FROM Account', maxRecords: 2 }] })
+    );
+
+    const result = await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+    ]);
+
+    expect(queries[0]).to.include('SELECT Id, Name FROM Account LIMIT 2');
+    expect(queries[1]).to.include('01gNEXT-1');
+    expect(result.objects[0]).to.deep.include({
+      retrieved: 2,
+      succeeded: 2,
+      failed: 0,
+      idMap: { '001S00000000001AAA': '001T00000000001AAA', '001S00000000002AAA': '001T00000000002AAA' },
+    });
+  });
+
+  it('keeps query clauses, expands FIELDS(ALL) and links parents by external ID', async () => {
+    const queries: string[] = [];
+    const bodies: Array<{ records: Array<Record<string, unknown>> }> = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method, body } =
+        typeof request === 'string'
+          ? { url: request, method: 'GET', body: '' }
+          : (request as { url: string; method: string; body: string });
+      if (url.includes('/sobjects/Account/describe')) {
+        return Promise.resolve({
+          name: 'Account',
+          keyPrefix: '001',
+          fields: [
+            { name: 'Id', type: 'id', updateable: false, custom: false },
+            { name: 'Name', type: 'string', updateable: true, custom: false },
+            { name: 'External_Id__c', type: 'string', updateable: true, custom: true, externalId: true },
+          ],
+        });
+      }
+      if (url.includes('/sobjects/Contact/describe')) {
+        return Promise.resolve({
+          name: 'Contact',
+          keyPrefix: '003',
+          fields: [
+            { name: 'LastName', type: 'string', updateable: true },
+            {
+              name: 'AccountId',
+              type: 'reference',
+              updateable: true,
+              referenceTo: ['Account'],
+              relationshipName: 'Account',
+            },
+            { name: 'Score__c', type: 'double', updateable: false, calculated: true },
+          ],
+        });
+      }
+      if (method === 'POST') {
+        bodies.push(JSON.parse(body) as { records: Array<Record<string, unknown>> });
+        return Promise.resolve([{ id: '003T00000000001AAA', success: true, errors: [] }]);
+      }
+      if (!url.includes('Organization')) queries.push(decodeURIComponent(url.split('q=')[1]).replace(/\+/g, ' '));
+      return Promise.resolve({
+        totalSize: 1,
+        done: true,
+        records: url.includes('Contact')
+          ? [
+              {
+                attributes: { type: 'Contact' },
+                Id: '003S00000000001AAA',
+                LastName: "O'Brien",
+                AccountId: '001S00000000001AAA',
+                // eslint-disable-next-line camelcase
+                Account: { attributes: { type: 'Account' }, External_Id__c: 'EXT-1' },
+              },
+            ]
+          : // eslint-disable-next-line camelcase
+            [{ attributes: { type: 'Account' }, Id: '001S00000000001AAA', Name: 'Acme', External_Id__c: 'EXT-1' }],
+      });
+    };
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({
+        objects: [
+          { sobject: 'Account' },
+          {
+            sobject: 'Contact',
+            query:
+              "SELECT Id, LastName, Account.External_Id__c, Score__c FROM Contact WHERE LastName LIKE 'O\\'%' ORDER BY LastName LIMIT 10",
+            maxRecords: 5,
+          },
+        ],
+      })
+    );
+
+    await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+    ]);
+
+    expect(queries).to.deep.equal([
+      'SELECT Id, Name, External_Id__c FROM Account',
+      "SELECT Id, LastName, Account.External_Id__c FROM Contact WHERE LastName LIKE 'O\\'%' ORDER BY LastName LIMIT 5",
+    ]);
+    expect(bodies[1].records).to.deep.equal([
+      // eslint-disable-next-line camelcase
+      { attributes: { type: 'Contact' }, LastName: "O'Brien", Account: { External_Id__c: 'EXT-1' } },
+    ]);
+  });
+
+  it('migrates parents first and sets self lookups in a second pass', async () => {
+    const writes: Array<{ method: string; records: Array<Record<string, unknown>> }> = [];
+    let inserted = 0;
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method, body } =
+        typeof request === 'string'
+          ? { url: request, method: 'GET', body: '' }
+          : (request as { url: string; method: string; body: string });
+      const lookup = (name: string, target: string) => ({
+        name,
+        type: 'reference',
+        updateable: true,
+        referenceTo: [target],
+      });
+      if (url.includes('/describe')) {
+        const account = url.includes('/Account/');
+        return Promise.resolve({
+          name: account ? 'Account' : 'Contact',
+          keyPrefix: account ? '001' : '003',
+          fields: [
+            { name: 'Name', type: 'string', updateable: true },
+            account ? lookup('ParentId', 'Account') : lookup('AccountId', 'Account'),
+          ],
+        });
+      }
+      if (method === 'POST' || method === 'PATCH') {
+        const { records } = JSON.parse(body) as { records: Array<Record<string, unknown>> };
+        writes.push({ method, records });
+        return Promise.resolve(
+          records.map((record) => ({
+            id: (record.id as string) ?? `00${++inserted}T00000000000AAA`,
+            success: true,
+            errors: [],
+          }))
+        );
+      }
+      return Promise.resolve({
+        totalSize: 2,
+        done: true,
+        records: url.includes('Contact')
+          ? [
+              {
+                attributes: { type: 'Contact' },
+                Id: '003S00000000001AAA',
+                Name: 'Ann',
+                AccountId: '001S00000000002AAA',
+              },
+            ]
+          : [
+              // The child is returned before its parent
+              {
+                attributes: { type: 'Account' },
+                Id: '001S00000000002AAA',
+                Name: 'Child',
+                ParentId: '001S00000000001AAA',
+              },
+              { attributes: { type: 'Account' }, Id: '001S00000000001AAA', Name: 'Parent', ParentId: null },
+            ],
+      });
+    };
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({
+        objects: [
+          { sobject: 'Contact', query: 'SELECT Id, Name, AccountId FROM Contact' },
+          { sobject: 'Account', query: 'SELECT Id, Name, ParentId FROM Account' },
+        ],
+      })
+    );
+
+    const result = await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+    ]);
+
+    expect(result.objects.map((o) => o.sobject)).to.deep.equal(['Account', 'Contact']);
+    expect(writes).to.deep.equal([
+      {
+        method: 'POST',
+        records: [
+          { attributes: { type: 'Account' }, Name: 'Child' },
+          { attributes: { type: 'Account' }, Name: 'Parent' },
+        ],
+      },
+      { method: 'POST', records: [{ attributes: { type: 'Contact' }, Name: 'Ann', AccountId: '001T00000000000AAA' }] },
+      {
+        method: 'PATCH',
+        records: [{ attributes: { type: 'Account' }, id: '001T00000000000AAA', ParentId: '002T00000000000AAA' }],
+      },
+    ]);
+  });
+
+  it('sets self lookups matched on a numeric external ID in the second pass', async () => {
+    const writes: Array<{ method: string; records: Array<Record<string, unknown>> }> = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method, body } =
+        typeof request === 'string'
+          ? { url: request, method: 'GET', body: '' }
+          : (request as { url: string; method: string; body: string });
+      if (url.includes('/describe')) {
+        return Promise.resolve({
+          name: 'Account',
+          keyPrefix: '001',
+          fields: [
+            { name: 'Name', type: 'string', updateable: true },
+            { name: 'Legacy_Number__c', type: 'double', updateable: true, custom: true, externalId: true },
+            {
+              name: 'ParentId',
+              type: 'reference',
+              updateable: true,
+              referenceTo: ['Account'],
+              relationshipName: 'Parent',
+            },
+          ],
+        });
+      }
+      if (method === 'POST' || method === 'PATCH') {
+        const { records } = JSON.parse(body) as { records: Array<Record<string, unknown>> };
+        writes.push({ method, records });
+        return Promise.resolve(
+          records.map((record, i) => ({
+            id: (record.id as string) ?? `001T0000000000${i}AAA`,
+            success: true,
+            errors: [],
+          }))
+        );
+      }
+      return Promise.resolve({
+        totalSize: 2,
+        done: true,
+        records: [
+          {
+            attributes: { type: 'Account' },
+            Id: '001S00000000001AAA',
+            Name: 'Parent',
+            // eslint-disable-next-line camelcase
+            Legacy_Number__c: 1,
+            Parent: null,
+          },
+          {
+            attributes: { type: 'Account' },
+            Id: '001S00000000002AAA',
+            Name: 'Child',
+            // eslint-disable-next-line camelcase
+            Legacy_Number__c: 2,
+            // eslint-disable-next-line camelcase
+            Parent: { attributes: { type: 'Account' }, Legacy_Number__c: 1 },
+          },
+        ],
+      });
+    };
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({
+        objects: [
+          { sobject: 'Account', query: 'SELECT Id, Name, Legacy_Number__c, Parent.Legacy_Number__c FROM Account' },
+        ],
+      })
+    );
+
+    await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+    ]);
+
+    expect(writes.map((w) => w.method)).to.deep.equal(['POST', 'PATCH']);
+    expect(writes[1].records).to.deep.equal([
+      // eslint-disable-next-line camelcase
+      { attributes: { type: 'Account' }, id: '001T00000000001AAA', Parent: { Legacy_Number__c: 1 } },
+    ]);
+  });
+
+  it('maps lookups to records migrated by earlier runs between the same orgs', async () => {
+    const bodies: Array<{ records: Array<Record<string, unknown>> }> = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method, body } =
+        typeof request === 'string'
+          ? { url: request, method: 'GET', body: '' }
+          : (request as { url: string; method: string; body: string });
+      if (url.includes('/describe')) {
+        const account = url.includes('/Account/');
+        return Promise.resolve({
+          name: account ? 'Account' : 'Contact',
+          keyPrefix: account ? '001' : '003',
+          fields: account
+            ? [{ name: 'Name', type: 'string', updateable: true }]
+            : [{ name: 'AccountId', type: 'reference', updateable: true, referenceTo: ['Account'] }],
+        });
+      }
+      if (method === 'POST') {
+        bodies.push(JSON.parse(body) as { records: Array<Record<string, unknown>> });
+        return Promise.resolve([{ id: '003T00000000001AAA', success: true, errors: [] }]);
+      }
+      return Promise.resolve({
+        totalSize: 1,
+        done: true,
+        records: [{ attributes: { type: 'Contact' }, Id: '003S00000000001AAA', AccountId: '001S00000000001AAA' }],
+      });
+    };
+    fs.writeFileSync(
+      idMapPath,
+      JSON.stringify({
+        sourceOrg: testOrg.orgId,
+        targetOrg: testOrg.orgId,
+        updatedAt: '2025-06-01T10:00:00.000Z',
+        idMap: { Account: { '001S00000000001AAA': '001T00000000001AAA' } },
+      })
+    );
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({ objects: [{ sobject: 'Contact', query: 'SELECT Id, AccountId FROM Contact' }] })
+    );
+
+    const result = await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+    ]);
+
+    expect(bodies[0].records[0]).to.deep.include({ AccountId: '001T00000000001AAA' });
+    expect(result.idMap).to.equal(idMapPath);
+    expect((JSON.parse(fs.readFileSync(idMapPath, 'utf-8')) as IdMapStore).idMap).to.deep.equal({
+      Account: { '001S00000000001AAA': '001T00000000001AAA' },
+      Contact: { '003S00000000001AAA': '003T00000000001AAA' },
+    });
   });
 
-  it('runs hello', async () => {
-    await SeederDataMigrate.run([]);
-    const output = sfCommandStubs.log
-      .getCalls()
-      .flatMap((c) => c.args)
-      .join('\n');
-    expect(output).to.include('hello world');
+  it('maps lookups to custom objects whatever their key prefix', async () => {
+    const bodies: Array<{ records: Array<Record<string, unknown>> }> = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method, body } =
+        typeof request === 'string'
+          ? { url: request, method: 'GET', body: '' }
+          : (request as { url: string; method: string; body: string });
+      if (url.includes('/describe')) {
+        const project = url.includes('/Project__c/');
+        return Promise.resolve({
+          name: project ? 'Project__c' : 'Contact',
+          keyPrefix: project ? 'a01' : '003',
+          fields: project
+            ? [{ name: 'Name', type: 'string', updateable: true }]
+            : [{ name: 'Project__c', type: 'reference', updateable: true, referenceTo: ['Project__c'] }],
+        });
+      }
+      if (method === 'POST') {
+        bodies.push(JSON.parse(body) as { records: Array<Record<string, unknown>> });
+        return Promise.resolve([{ id: '003T00000000001AAA', success: true, errors: [] }]);
+      }
+      return Promise.resolve({
+        totalSize: 1,
+        done: true,
+        // eslint-disable-next-line camelcase
+        records: [{ attributes: { type: 'Contact' }, Id: '003S00000000001AAA', Project__c: 'a01S00000000001AAA' }],
+      });
+    };
+    fs.writeFileSync(
+      idMapPath,
+      JSON.stringify({
+        sourceOrg: testOrg.orgId,
+        targetOrg: testOrg.orgId,
+        updatedAt: '2025-06-01T10:00:00.000Z',
+        // eslint-disable-next-line camelcase
+        idMap: { Project__c: { a01S00000000001AAA: 'a01T00000000001AAA' } },
+      })
+    );
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({ objects: [{ sobject: 'Contact', query: 'SELECT Id, Project__c FROM Contact' }] })
+    );
+
+    await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+    ]);
+
+    // eslint-disable-next-line camelcase
+    expect(bodies[0].records[0]).to.deep.include({ Project__c: 'a01T00000000001AAA' });
+  });
+
+  it('renames, translates, overrides and excludes fields before writing', async () => {
+    const bodies: Array<{ records: Array<Record<string, unknown>> }> = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method, body } =
+        typeof request === 'string'
+          ? { url: request, method: 'GET', body: '' }
+          : (request as { url: string; method: string; body: string });
+      if (url.includes('/describe')) {
+        return Promise.resolve({
+          name: 'Account',
+          keyPrefix: '001',
+          fields: [
+            { name: 'Name', type: 'string', updateable: true, createable: true },
+            { name: 'Industry', type: 'picklist', updateable: true, createable: true },
+            { name: 'Region__c', type: 'string', updateable: true, createable: true },
+            { name: 'Area__c', type: 'string', updateable: true, createable: true },
+            { name: 'Description', type: 'textarea', updateable: true, createable: true },
+          ],
+        });
+      }
+      if (method === 'POST') {
+        bodies.push(JSON.parse(body) as { records: Array<Record<string, unknown>> });
+        return Promise.resolve([{ id: '001T00000000001AAA', success: true, errors: [] }]);
+      }
+      return Promise.resolve({
+        totalSize: 1,
+        done: true,
+        records: [
+          {
+            attributes: { type: 'Account' },
+            Id: '001S00000000001AAA',
+            Name: 'Acme',
+            Industry: 'Tech',
+            // eslint-disable-next-line camelcase
+            Region__c: 'EU',
+          },
+        ],
+      });
+    };
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({
+        objects: [
+          {
+            sobject: 'Account',
+            exclude: ['Description'],
+            // eslint-disable-next-line camelcase
+            fieldMap: { Region__c: 'Area__c' },
+            valueMap: { Industry: { Tech: 'Technology' } },
+            constants: { Description: 'Migrated' },
+          },
+        ],
+      })
+    );
+
+    await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+    ]);
+
+    expect(bodies[0].records).to.deep.equal([
+      // eslint-disable-next-line camelcase
+      { attributes: { type: 'Account' }, Name: 'Acme', Industry: 'Technology', Area__c: 'EU', Description: 'Migrated' },
+    ]);
+  });
+
+  it('refuses field rules that name fields missing from the target org', async () => {
+    fs.writeFileSync(planPath, JSON.stringify({ objects: [{ sobject: 'Account', fieldMap: { Name: 'Title__c' } }] }));
+
+    try {
+      await SeederDataMigrate.run([
+        '--source-org',
+        testOrg.username,
+        '--target-org',
+        testOrg.username,
+        '--plan',
+        planPath,
+        '--id-map',
+        idMapPath,
+      ]);
+      expect.fail('expected the migration to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('cannot be written in the target org: Title__c');
+    }
+  });
+
+  it('updates target records matched by external ID and reports the unmatched ones', async () => {
+    const queries: string[] = [];
+    const updates: Array<Array<Record<string, unknown>>> = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method, body } =
+        typeof request === 'string'
+          ? { url: request, method: 'GET', body: '' }
+          : (request as { url: string; method: string; body: string });
+      if (url.includes('/describe')) {
+        return Promise.resolve({
+          name: 'Account',
+          keyPrefix: '001',
+          fields: [
+            { name: 'Name', type: 'string', updateable: true },
+            // eslint-disable-next-line camelcase
+            { name: 'External_Id__c', type: 'string', updateable: true, externalId: true },
+          ],
+        });
+      }
+      if (method === 'PATCH') {
+        const { records } = JSON.parse(body) as { records: Array<Record<string, unknown>> };
+        updates.push(records);
+        return Promise.resolve(records.map((record) => ({ id: record.id as string, success: true, errors: [] })));
+      }
+      if (url.includes('Organization')) return Promise.resolve({ totalSize: 0, done: true, records: [] });
+
+      const query = decodeURIComponent(url.split('q=')[1]).replace(/\+/g, ' ');
+      queries.push(query);
+      return Promise.resolve({
+        totalSize: 2,
+        done: true,
+        records: query.includes(' IN (')
+          ? // eslint-disable-next-line camelcase
+            [{ attributes: { type: 'Account' }, Id: '001T00000000001AAA', External_Id__c: 'A-1' }]
+          : [
+              // eslint-disable-next-line camelcase
+              { attributes: { type: 'Account' }, Id: '001S00000000001AAA', Name: 'Acme', External_Id__c: 'A-1' },
+              // eslint-disable-next-line camelcase
+              { attributes: { type: 'Account' }, Id: '001S00000000002AAA', Name: "O'Neil", External_Id__c: "O'N" },
+            ],
+      });
+    };
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({
+        objects: [
+          {
+            sobject: 'Account',
+            operation: 'Update',
+            externalId: 'External_Id__c',
+            query: 'SELECT Id, Name, External_Id__c FROM Account',
+          },
+        ],
+      })
+    );
+
+    const result = await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+      '--failures',
+      path.join(dir, 'failures.json'),
+    ]);
+
+    expect(queries[1]).to.equal("SELECT Id, External_Id__c FROM Account WHERE External_Id__c IN ('A-1', 'O\\'N')");
+    expect(updates).to.deep.equal([
+      // eslint-disable-next-line camelcase
+      [{ attributes: { type: 'Account' }, id: '001T00000000001AAA', Name: 'Acme', External_Id__c: 'A-1' }],
+    ]);
+    expect(result.objects[0]).to.deep.include({
+      operation: 'Update',
+      succeeded: 1,
+      failed: 1,
+      idMap: { '001S00000000001AAA': '001T00000000001AAA' },
+      failures: [{ sourceId: '001S00000000002AAA', errors: ["No target record matches External_Id__c O'N"] }],
+    });
+  });
+
+  it('deletes target records matched through the ID map and drops them from it', async () => {
+    const deleted: string[] = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method } =
+        typeof request === 'string' ? { url: request, method: 'GET' } : (request as { url: string; method: string });
+      if (url.includes('/describe')) {
+        return Promise.resolve({
+          name: 'Account',
+          keyPrefix: '001',
+          fields: [{ name: 'Name', type: 'string', updateable: true }],
+        });
+      }
+      if (method === 'DELETE') {
+        const ids = decodeURIComponent(/ids=([^&]+)/.exec(url)?.[1] ?? '').split(',');
+        deleted.push(...ids);
+        return Promise.resolve(ids.map((id) => ({ id, success: true, errors: [] })));
+      }
+      return Promise.resolve({
+        totalSize: 2,
+        done: true,
+        records: [
+          { attributes: { type: 'Account' }, Id: '001S00000000001AAA', Name: 'Acme' },
+          { attributes: { type: 'Account' }, Id: '001S00000000002AAA', Name: 'Globex' },
+        ],
+      });
+    };
+    fs.writeFileSync(
+      idMapPath,
+      JSON.stringify({
+        sourceOrg: testOrg.orgId,
+        targetOrg: testOrg.orgId,
+        updatedAt: '2025-06-01T10:00:00.000Z',
+        idMap: { Account: { '001S00000000001AAA': '001T00000000001AAA' } },
+      })
+    );
+    fs.writeFileSync(planPath, JSON.stringify({ objects: [{ sobject: 'Account', operation: 'Delete' }] }));
+
+    const result = await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+      '--failures',
+      path.join(dir, 'failures.json'),
+    ]);
+
+    expect(deleted).to.deep.equal(['001T00000000001AAA']);
+    expect(result.objects[0]).to.deep.include({
+      operation: 'Delete',
+      succeeded: 1,
+      failed: 1,
+      failures: [{ sourceId: '001S00000000002AAA', errors: ['No target record matches the ID map'] }],
+    });
+    expect((JSON.parse(fs.readFileSync(idMapPath, 'utf-8')) as IdMapStore).idMap).to.deep.equal({ Account: {} });
   });
 
-  it('runs hello with --json and no provided name', async () => {
-    const result = await SeederDataMigrate.run([]);
-    expect(result.path).to.equal('src/commands/seeder/data/migrate.ts');
+  it('previews upserts as creates, updates and unchanged records without writing', async () => {
+    const queries: string[] = [];
+    const writes: string[] = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method } =
+        typeof request === 'string' ? { url: request, method: 'GET' } : (request as { url: string; method: string });
+      if (url.includes('/describe')) {
+        return Promise.resolve({
+          name: 'Account',
+          keyPrefix: '001',
+          fields: [
+            { name: 'Name', type: 'string', updateable: true },
+            // eslint-disable-next-line camelcase
+            { name: 'External_Id__c', type: 'string', updateable: true, externalId: true },
+          ],
+        });
+      }
+      if (method !== 'GET') {
+        writes.push(method);
+        return Promise.resolve([]);
+      }
+      if (url.includes('Organization')) return Promise.resolve({ totalSize: 0, done: true, records: [] });
+
+      const query = decodeURIComponent(url.split('q=')[1]).replace(/\+/g, ' ');
+      queries.push(query);
+      return Promise.resolve({
+        totalSize: 3,
+        done: true,
+        records: query.includes(' IN (')
+          ? [
+              // eslint-disable-next-line camelcase
+              { attributes: { type: 'Account' }, Id: '001T00000000001AAA', External_Id__c: 'A-1', Name: 'Acme Corp' },
+              // eslint-disable-next-line camelcase
+              { attributes: { type: 'Account' }, Id: '001T00000000002AAA', External_Id__c: 'A-2', Name: 'Globex' },
+            ]
+          : [
+              // eslint-disable-next-line camelcase
+              { attributes: { type: 'Account' }, Id: '001S00000000001AAA', Name: 'Acme', External_Id__c: 'A-1' },
+              // eslint-disable-next-line camelcase
+              { attributes: { type: 'Account' }, Id: '001S00000000002AAA', Name: 'Globex', External_Id__c: 'A-2' },
+              // eslint-disable-next-line camelcase
+              { attributes: { type: 'Account' }, Id: '001S00000000003AAA', Name: 'Initech', External_Id__c: 'A-3' },
+            ],
+      });
+    };
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({
+        objects: [
+          {
+            sobject: 'Account',
+            operation: 'Upsert',
+            externalId: 'External_Id__c',
+            query: 'SELECT Id, Name, External_Id__c FROM Account',
+          },
+        ],
+      })
+    );
+    const previewPath = path.join(dir, 'preview.json');
+
+    const result = await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+      '--dryrun',
+      '--save',
+      previewPath,
+    ]);
+
+    expect(writes).to.deep.equal([]);
+    expect(fs.existsSync(idMapPath)).to.equal(false);
+    expect(queries[1]).to.equal(
+      "SELECT Id, External_Id__c, Name FROM Account WHERE External_Id__c IN ('A-1', 'A-2', 'A-3')"
+    );
+    expect(result).to.deep.include({ dryRun: true, preview: previewPath });
+    expect(result.objects[0].preview).to.deep.equal({ create: 1, update: 1, unchanged: 1, delete: 0, notFound: 0 });
+
+    const report = JSON.parse(fs.readFileSync(previewPath, 'utf-8')) as MigrationPreviewReport;
+    expect(report.objects[0].records).to.deep.equal([
+      {
+        sourceId: '001S00000000001AAA',
+        action: 'update',
+        targetId: '001T00000000001AAA',
+        changes: { Name: { from: 'Acme Corp', to: 'Acme' } },
+      },
+      { sourceId: '001S00000000002AAA', action: 'unchanged', targetId: '001T00000000002AAA' },
+      // eslint-disable-next-line camelcase
+      { sourceId: '001S00000000003AAA', action: 'create', record: { Name: 'Initech', External_Id__c: 'A-3' } },
+    ]);
   });
 
-  it('runs hello world --name Astro', async () => {
-    await SeederDataMigrate.run(['--name', 'Astro']);
-    const output = sfCommandStubs.log
-      .getCalls()
-      .flatMap((c) => c.args)
-      .join('\n');
-    expect(output).to.include('hello Astro');
+  it('refuses an Upsert without an externalId', async () => {
+    fs.writeFileSync(planPath, JSON.stringify({ objects: [{ sobject: 'Account', operation: 'Upsert' }] }));
+
+    try {
+      await SeederDataMigrate.run([
+        '--source-org',
+        testOrg.username,
+        '--target-org',
+        testOrg.username,
+        '--plan',
+        planPath,
+        '--id-map',
+        idMapPath,
+      ]);
+      expect.fail('expected the migration to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('Migration plan is invalid');
+    }
+    expect(sfCommandStubs.warn.calledWith('Object 1: Upsert needs an "externalId" to match records on')).to.equal(true);
+  });
+
+  it('masks fields deterministically so equal source values stay equal', async () => {
+    const bodies: Array<{ records: Array<Record<string, unknown>> }> = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method, body } =
+        typeof request === 'string'
+          ? { url: request, method: 'GET', body: '' }
+          : (request as { url: string; method: string; body: string });
+      if (url.includes('/describe')) {
+        return Promise.resolve({
+          name: 'Contact',
+          keyPrefix: '003',
+          fields: [
+            { name: 'LastName', type: 'string', updateable: true },
+            { name: 'Email', type: 'email', updateable: true },
+            { name: 'Phone', type: 'phone', updateable: true },
+          ],
+        });
+      }
+      if (method === 'POST') {
+        const { records } = JSON.parse(body) as { records: Array<Record<string, unknown>> };
+        bodies.push({ records });
+        return Promise.resolve(records.map((_, i) => ({ id: `003T0000000000${i}AAA`, success: true, errors: [] })));
+      }
+      return Promise.resolve({
+        totalSize: 3,
+        done: true,
+        records: [
+          { Id: '003S00000000001AAA', LastName: 'Doe', Email: 'jane@corp.com', Phone: '555-0100' },
+          { Id: '003S00000000002AAA', LastName: 'Roe', Email: 'jane@corp.com', Phone: null },
+          { Id: '003S00000000003AAA', LastName: 'Poe', Email: 'john@corp.com', Phone: '555-0101' },
+        ],
+      });
+    };
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({
+        maskProfile: { phone: '#{faker.phone.number}' },
+        objects: [{ sobject: 'Contact', mask: { Email: '#{faker.internet.email}' } }],
+      })
+    );
+
+    const migrate = () =>
+      SeederDataMigrate.run([
+        '--source-org',
+        testOrg.username,
+        '--target-org',
+        testOrg.username,
+        '--plan',
+        planPath,
+        '--id-map',
+        idMapPath,
+        '--mask-salt',
+        's3cret',
+      ]);
+    await migrate();
+    await migrate();
+
+    const [first, second] = bodies.map(({ records }) => records);
+    expect(first.map((r) => r.LastName)).to.deep.equal(['Doe', 'Roe', 'Poe']);
+    expect(first[0].Email).to.be.a('string').and.not.equal('jane@corp.com');
+    expect(first[1].Email).to.equal(first[0].Email);
+    expect(first[2].Email).to.not.equal(first[0].Email);
+    expect(first[0].Phone).to.be.a('string').and.not.equal('555-0100');
+    expect(first[1].Phone).to.equal(null);
+    // Masking does not depend on the run, so re-migrating the same data gives the same values
+    expect(second).to.deep.equal(first);
+  });
+
+  it('refuses to mask fields without a salt', async () => {
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({ objects: [{ sobject: 'Contact', mask: { Email: '#{faker.internet.email}' } }] })
+    );
+
+    try {
+      await SeederDataMigrate.run([
+        '--source-org',
+        testOrg.username,
+        '--target-org',
+        testOrg.username,
+        '--plan',
+        planPath,
+        '--id-map',
+        idMapPath,
+      ]);
+      expect.fail('expected the migration to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('The plan masks fields, so it needs a secret --mask-salt');
+    }
+  });
+
+  it('masks external ID lookups like the parent field they match on', async () => {
+    const bodies: Array<Array<Record<string, unknown>>> = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { url, method, body } =
+        typeof request === 'string'
+          ? { url: request, method: 'GET', body: '' }
+          : (request as { url: string; method: string; body: string });
+      if (url.includes('/sobjects/Account/describe')) {
+        return Promise.resolve({
+          name: 'Account',
+          keyPrefix: '001',
+          fields: [
+            { name: 'Name', type: 'string', updateable: true },
+            { name: 'External_Id__c', type: 'string', updateable: true, externalId: true },
+          ],
+        });
+      }
+      if (url.includes('/sobjects/Contact/describe')) {
+        return Promise.resolve({
+          name: 'Contact',
+          keyPrefix: '003',
+          fields: [
+            { name: 'LastName', type: 'string', updateable: true },
+            {
+              name: 'AccountId',
+              type: 'reference',
+              updateable: true,
+              referenceTo: ['Account'],
+              relationshipName: 'Account',
+            },
+          ],
+        });
+      }
+      if (method === 'POST') {
+        const { records } = JSON.parse(body) as { records: Array<Record<string, unknown>> };
+        bodies.push(records);
+        return Promise.resolve(records.map((_, i) => ({ id: `001T0000000000${i}AAA`, success: true, errors: [] })));
+      }
+      return Promise.resolve({
+        totalSize: 1,
+        done: true,
+        records: url.includes('Contact')
+          ? [
+              {
+                Id: '003S00000000001AAA',
+                LastName: 'Doe',
+                // eslint-disable-next-line camelcase
+                Account: { attributes: { type: 'Account' }, External_Id__c: 'EXT-1' },
+              },
+            ]
+          : // eslint-disable-next-line camelcase
+            [{ Id: '001S00000000001AAA', Name: 'Acme', External_Id__c: 'EXT-1' }],
+      });
+    };
+    fs.writeFileSync(
+      planPath,
+      JSON.stringify({
+        objects: [
+          // eslint-disable-next-line camelcase
+          { sobject: 'Account', mask: { External_Id__c: '#{faker.string.alphanumeric(10)}' } },
+          { sobject: 'Contact', query: 'SELECT Id, LastName, Account.External_Id__c FROM Contact' },
+        ],
+      })
+    );
+
+    await SeederDataMigrate.run([
+      '--source-org',
+      testOrg.username,
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--id-map',
+      idMapPath,
+      '--mask-salt',
+      's3cret',
+    ]);
+
+    const [[account], [contact]] = bodies;
+    expect(account.External_Id__c).to.be.a('string').and.not.equal('EXT-1');
+    // The child looks its parent up by the masked value the parent was inserted with
+    // eslint-disable-next-line camelcase
+    expect(contact.Account).to.deep.equal({ External_Id__c: account.External_Id__c });
   });
 });
@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
+import { Connection } from '@salesforce/core';
+import { expect } from 'chai';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import SeederDataRetry from '../../../../src/commands/seeder/data/retry.js';
+import { IdMapStore, MigrationFailureReport } from '../../../../src/types/index.js';
+
+describe('seeder data retry', () => {
+  const $$ = new TestContext();
+  const testOrg = new MockTestOrgData();
+  let dir: string;
+  let failuresPath: string;
+
+  beforeEach(async () => {
+    stubSfCommandUx($$.SANDBOX);
+    await $$.stubAuths(testOrg);
+    $$.SANDBOX.stub(Connection.prototype, 'identity').resolves({ username: testOrg.username } as never);
+
+    const report: MigrationFailureReport = {
+      kind: 'migration',
+      runId: 'run-1',
+      org: testOrg.username,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      idMap: { Account: { '001S00000000001AAA': '001T00000000001AAA' }, Contact: {} },
+      failures: [
+        {
+          step: 1,
+          sobject: 'Account',
+          operation: 'Insert',
+          sourceId: '001S00000000002AAA',
+          payload: { Name: 'Globex' },
+          lookups: {},
+          errors: [{ code: 'DUPLICATE_VALUE', message: 'duplicate value found' }],
+        },
+        {
+          step: 2,
+          sobject: 'Contact',
+          operation: 'Insert',
+          sourceId: '003S00000000001AAA',
+          payload: { LastName: 'Doe', AccountId: '001S00000000002AAA' },
+          lookups: { AccountId: '001S00000000002AAA' },
+          errors: [{ code: 'INVALID_CROSS_REFERENCE_KEY', message: 'invalid cross reference id' }],
+        },
+      ],
+    };
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seeder-'));
+    failuresPath = path.join(dir, 'failures.json');
+    fs.writeFileSync(failuresPath, JSON.stringify(report));
+  });
+
+  afterEach(() => {
+    $$.restore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('re-submits failed records, mapping lookups to retried parents', async () => {
+    const sent: unknown[] = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { body } = request as { body: string };
+      const { records } = JSON.parse(body) as { records: Array<{ attributes: { type: string } }> };
+      sent.push(...records);
+      const prefix = records[0].attributes.type === 'Account' ? '001' : '003';
+      return Promise.resolve(records.map(() => ({ id: `${prefix}T00000000002AAA`, success: true, errors: [] })));
+    };
+
+    const result = await SeederDataRetry.run(['--target-org', testOrg.username, '--failures', failuresPath]);
+
+    expect(sent).to.deep.equal([
+      { attributes: { type: 'Account' }, Name: 'Globex' },
+      { attributes: { type: 'Contact' }, LastName: 'Doe', AccountId: '001T00000000002AAA' },
+    ]);
+    expect(result).to.deep.include({
+      retried: 2,
+      succeeded: 2,
+      failed: 0,
+      idMap: { '001S00000000002AAA': '001T00000000002AAA', '003S00000000001AAA': '003T00000000002AAA' },
+    });
+
+    const report = JSON.parse(fs.readFileSync(failuresPath, 'utf-8')) as MigrationFailureReport;
+    expect(report.failures).to.deep.equal([]);
+    expect(report.idMap.Account).to.deep.equal({
+      '001S00000000001AAA': '001T00000000001AAA',
+      '001S00000000002AAA': '001T00000000002AAA',
+    });
+  });
+
+  it('records retried records in the ID map store of the migration', async () => {
+    const idMapPath = path.join(dir, 'idmap.json');
+    const store: IdMapStore = {
+      sourceOrg: '00DS00000000001AAA',
+      targetOrg: testOrg.orgId,
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      idMap: { Account: { '001S00000000001AAA': '001T00000000001AAA' }, Opportunity: { '006S1': '006T1' } },
+    };
+    fs.writeFileSync(idMapPath, JSON.stringify(store));
+    const report = JSON.parse(fs.readFileSync(failuresPath, 'utf-8')) as MigrationFailureReport;
+    fs.writeFileSync(
+      failuresPath,
+      JSON.stringify({ ...report, idMapStore: idMapPath, sourceOrg: '00DS00000000001AAA' })
+    );
+    $$.fakeConnectionRequest = (request) => {
+      const { records } = JSON.parse((request as { body: string }).body) as {
+        records: Array<{ attributes: { type: string } }>;
+      };
+      const prefix = records[0].attributes.type === 'Account' ? '001' : '003';
+      return Promise.resolve(records.map(() => ({ id: `${prefix}T00000000002AAA`, success: true, errors: [] })));
+    };
+
+    await SeederDataRetry.run(['--target-org', testOrg.username, '--failures', failuresPath]);
+
+    const saved = JSON.parse(fs.readFileSync(idMapPath, 'utf-8')) as IdMapStore;
+    expect(saved.idMap).to.deep.equal({
+      Account: { '001S00000000001AAA': '001T00000000001AAA', '001S00000000002AAA': '001T00000000002AAA' },
+      Contact: { '003S00000000001AAA': '003T00000000002AAA' },
+      Opportunity: { '006S1': '006T1' },
+    });
+  });
+});
@@ -4,43 +4,143 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { TestContext } from '@salesforce/core/testSetup';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
+import { Connection } from '@salesforce/core';
 import { expect } from 'chai';
 import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
 import SeederPlanGenerate from '../../../../src/commands/seeder/plan/generate.js';
 
 describe('seeder plan generate', () => {
   const $$ = new TestContext();
+  const testOrg = new MockTestOrgData();
   let sfCommandStubs: ReturnType<typeof stubSfCommandUx>;
+  let dir: string;
+  let extraFields: Record<string, Array<Record<string, string | boolean | string[]>>>;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     sfCommandStubs = stubSfCommandUx($$.SANDBOX);
+    extraFields = {};
+    await $$.stubAuths(testOrg);
+    $$.SANDBOX.stub(Connection.prototype, 'identity').resolves({ username: testOrg.username } as never);
+    $$.fakeConnectionRequest = (request) => {
+      const url = typeof request === 'string' ? request : (request as { url: string }).url;
+      const describe = /\/sobjects\/(\w+)\/describe/.exec(url);
+      if (url.includes('FROM+RecordType') || url.includes('FROM%20RecordType')) {
+        return Promise.resolve({
+          totalSize: 2,
+          done: true,
+          records: [
+            { Id: '012000000000001AAA', SobjectType: 'Account', DeveloperName: 'Partner', Name: 'Partner' },
+            { Id: '012000000000002AAA', SobjectType: 'Account', DeveloperName: 'Customer', Name: 'Customer' },
+          ],
+        });
+      }
+      if (!describe) return Promise.resolve({ records: [], totalSize: 0, done: true });
+
+      const sobject = describe[1];
+      return Promise.resolve({
+        name: sobject,
+        fields: [
+          { name: 'Id', type: 'id', updateable: false },
+          { name: sobject === 'Account' ? 'Name' : 'LastName', type: 'string', updateable: true, nillable: true },
+          ...(sobject === 'Contact'
+            ? [{ name: 'AccountId', type: 'reference', referenceTo: ['Account'], updateable: true, nillable: true }]
+            : []),
+          ...(extraFields[sobject] ?? []),
+        ],
+      });
+    };
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seeder-'));
   });
 
   afterEach(() => {
     $$.restore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the generated plan in dependency order', async () => {
+    const output = path.join(dir, 'plan.yaml');
+
+    const result = await SeederPlanGenerate.run([
+      '--target-org',
+      testOrg.username,
+      '--objects',
+      'Contact,Account',
+      '--count',
+      '2',
+      '--output',
+      output,
+    ]);
+
+    expect(result.path).to.equal(output);
+    expect(result.plan.map((s) => s.sobject)).to.deep.equal(['Account', 'Contact']);
+    expect(result.plan[0]).to.include({ count: 2, saveRefs: true });
+    expect(result.plan[1].fields.AccountId).to.equal('@{Account.Id}');
+    expect(fs.readFileSync(output, 'utf-8')).to.include('sobject: Account');
   });
 
-  it('runs hello', async () => {
-    await SeederPlanGenerate.run([]);
-    const output = sfCommandStubs.log
-      .getCalls()
-      .flatMap((c) => c.args)
-      .join('\n');
-    expect(output).to.include('hello world');
+  it('keeps the default record type instead of prompting with --json', async () => {
+    const output = path.join(dir, 'plan.yaml');
+
+    const result = await SeederPlanGenerate.run([
+      '--target-org',
+      testOrg.username,
+      '--objects',
+      'Account',
+      '--output',
+      output,
+      '--json',
+    ]);
+
+    expect(result.plan[0].fields).to.not.have.property('RecordTypeId');
+    expect(sfCommandStubs.warn.calledWithMatch('Account has 2 record types. Using the default record type')).to.equal(
+      true
+    );
   });
 
-  it('runs hello with --json and no provided name', async () => {
-    const result = await SeederPlanGenerate.run([]);
-    expect(result.path).to.equal('src/commands/seeder/plan/generate.ts');
+  it('picks the first reference target instead of prompting with --json', async () => {
+    const result = await SeederPlanGenerate.run([
+      '--target-org',
+      testOrg.username,
+      '--objects',
+      'Account:Partners,Account:Customers,Contact',
+      '--output',
+      path.join(dir, 'plan.yaml'),
+      '--json',
+    ]);
+
+    const contact = result.plan.find((s) => s.sobject === 'Contact');
+    expect(contact?.fields.AccountId).to.equal('@{Partners.Id}');
+    expect(
+      sfCommandStubs.warn.calledWithMatch('Contact.AccountId can reference Partners, Customers. Using Partners')
+    ).to.equal(true);
   });
 
-  it('runs hello world --name Astro', async () => {
-    await SeederPlanGenerate.run(['--name', 'Astro']);
-    const output = sfCommandStubs.log
-      .getCalls()
-      .flatMap((c) => c.args)
-      .join('\n');
-    expect(output).to.include('hello Astro');
+  it('breaks lookup cycles instead of prompting with --json', async () => {
+    extraFields.Account = [
+      { name: 'Primary_Contact__c', type: 'reference', referenceTo: ['Contact'], updateable: true, nillable: true },
+    ];
+
+    const result = await SeederPlanGenerate.run([
+      '--target-org',
+      testOrg.username,
+      '--objects',
+      'Account,Contact',
+      '--output',
+      path.join(dir, 'plan.yaml'),
+      '--json',
+    ]);
+
+    expect(result.plan.map((s) => s.sobject)).to.deep.equal(['Account', 'Contact']);
+    expect(result.plan[0].fields).to.not.have.property('Primary_Contact__c');
+    expect(result.plan[1].fields.AccountId).to.equal('@{Account.Id}');
+    expect(
+      sfCommandStubs.warn.calledWithMatch(
+        'Leaving out Account.Primary_Contact__c (lookup to Contact) to break the cycle'
+      )
+    ).to.equal(true);
   });
 });
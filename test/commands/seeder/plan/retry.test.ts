@@ -0,0 +1,135 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
+import { Connection } from '@salesforce/core';
+import { Bulk } from '@jsforce/jsforce-node/lib/api/bulk.js';
+import { expect } from 'chai';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import SeederPlanRetry from '../../../../src/commands/seeder/plan/retry.js';
+import { FieldValue, RunManifest, SeedingFailureReport } from '../../../../src/types/index.js';
+
+describe('seeder plan retry', () => {
+  const $$ = new TestContext();
+  const testOrg = new MockTestOrgData();
+  let manifestPath: string;
+  let failuresPath: string;
+  let dir: string;
+
+  beforeEach(async () => {
+    stubSfCommandUx($$.SANDBOX);
+    await $$.stubAuths(testOrg);
+    $$.SANDBOX.stub(Connection.prototype, 'identity').resolves({ username: testOrg.username } as never);
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seeder-'));
+    manifestPath = path.join(dir, 'manifest.json');
+    failuresPath = path.join(dir, 'failures.json');
+
+    const manifest: RunManifest = {
+      runId: 'run-1',
+      org: testOrg.username,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      steps: [{ step: 1, sobject: 'Account', ids: ['001000000000001AAA'], timestamp: '2025-01-01T00:00:00.000Z' }],
+    };
+    const report: SeedingFailureReport = {
+      kind: 'seeding',
+      runId: 'run-1',
+      org: testOrg.username,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      manifest: manifestPath,
+      references: { Customers: { sobject: 'Account', records: [{ id: '001000000000001AAA', fields: {} }] } },
+      failures: [
+        {
+          step: 1,
+          sobject: 'Account',
+          ref: 'Customers',
+          index: 1,
+          total: 2,
+          payload: { Name: 'Customer 2' },
+          references: {},
+          errors: [{ code: 'DUPLICATE_VALUE', message: 'duplicate value found' }],
+        },
+        {
+          step: 2,
+          sobject: 'Contact',
+          index: 1,
+          total: 2,
+          payload: { LastName: 'Doe', AccountId: '001000000000001AAA' },
+          references: { AccountId: '@{Customers.Id | round-robin}' },
+          errors: [{ code: 'FIELD_CUSTOM_VALIDATION_EXCEPTION', message: 'Email is required' }],
+        },
+      ],
+    };
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+    fs.writeFileSync(failuresPath, JSON.stringify(report));
+  });
+
+  afterEach(() => {
+    $$.restore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('re-submits failed records, re-resolving references to retried parents', async () => {
+    const sent: Array<{ sobject: string; records: Array<Record<string, FieldValue>> }> = [];
+    $$.SANDBOX.stub(Bulk.prototype, 'load').callsFake(((
+      sobject: string,
+      _operation: string,
+      records: Array<Record<string, FieldValue>>
+    ) => {
+      sent.push({ sobject, records });
+      const prefix = sobject === 'Account' ? '001' : '003';
+      return Promise.resolve(records.map(() => ({ id: `${prefix}000000000002AAA`, success: true, errors: [] })));
+    }) as never);
+
+    const result = await SeederPlanRetry.run(['--target-org', testOrg.username, '--failures', failuresPath]);
+
+    expect(sent).to.deep.equal([
+      { sobject: 'Account', records: [{ Name: 'Customer 2' }] },
+      { sobject: 'Contact', records: [{ LastName: 'Doe', AccountId: '001000000000002AAA' }] },
+    ]);
+    expect(result).to.deep.include({ retried: 2, inserted: 2, failed: 0 });
+
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as RunManifest;
+    expect(manifest.steps.map((s) => s.ids)).to.deep.equal([
+      ['001000000000001AAA'],
+      ['001000000000002AAA'],
+      ['003000000000002AAA'],
+    ]);
+    const report = JSON.parse(fs.readFileSync(failuresPath, 'utf-8')) as SeedingFailureReport;
+    expect(report.failures).to.deep.equal([]);
+  });
+
+  it('keeps records that fail again in the report', async () => {
+    $$.SANDBOX.stub(Bulk.prototype, 'load').callsFake(((sobject: string) =>
+      Promise.resolve([
+        sobject === 'Account'
+          ? { id: '001000000000002AAA', success: true, errors: [] }
+          : { success: false, errors: ['REQUIRED_FIELD_MISSING:Required fields are missing: [Email]'] },
+      ])) as never);
+
+    try {
+      await SeederPlanRetry.run(['--target-org', testOrg.username, '--failures', failuresPath]);
+      expect.fail('expected retry to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('1 record(s) still failing');
+    }
+
+    const report = JSON.parse(fs.readFileSync(failuresPath, 'utf-8')) as SeedingFailureReport;
+    expect(report.failures).to.have.length(1);
+    expect(report.failures[0]).to.deep.include({
+      sobject: 'Contact',
+      payload: { LastName: 'Doe', AccountId: '001000000000002AAA' },
+      errors: [{ code: 'REQUIRED_FIELD_MISSING', message: 'Required fields are missing: [Email]' }],
+    });
+    expect(report.references.Customers.records.map((r) => r.id)).to.deep.equal([
+      '001000000000001AAA',
+      '001000000000002AAA',
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
+import { Connection } from '@salesforce/core';
+import { Bulk } from '@jsforce/jsforce-node/lib/api/bulk.js';
+import { expect } from 'chai';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import SeederPlanRollback from '../../../../src/commands/seeder/plan/rollback.js';
+import { RunManifest } from '../../../../src/types/index.js';
+
+describe('seeder plan rollback', () => {
+  const $$ = new TestContext();
+  const testOrg = new MockTestOrgData();
+  let dir: string;
+  let manifestPath: string;
+
+  beforeEach(async () => {
+    stubSfCommandUx($$.SANDBOX);
+    await $$.stubAuths(testOrg);
+    $$.SANDBOX.stub(Connection.prototype, 'identity').resolves({ username: testOrg.username } as never);
+
+    const manifest: RunManifest = {
+      runId: 'run-1',
+      org: testOrg.username,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      steps: [
+        { step: 1, sobject: 'Account', ids: ['001000000000001AAA'], timestamp: '2025-01-01T00:00:00.000Z' },
+        {
+          step: 2,
+          sobject: 'Contact',
+          ids: ['003000000000001AAA', '003000000000002AAA'],
+          timestamp: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+    };
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seeder-'));
+    manifestPath = path.join(dir, 'manifest.json');
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+  });
+
+  afterEach(() => {
+    $$.restore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('deletes recorded records in reverse step order', async () => {
+    const deleted: string[] = [];
+    $$.SANDBOX.stub(Bulk.prototype, 'load').callsFake(((
+      sobject: string,
+      _operation: string,
+      records: Array<{ Id: string }>
+    ) => {
+      deleted.push(sobject);
+      return Promise.resolve(records.map((r) => ({ id: r.Id, success: true, errors: [] })));
+    }) as never);
+
+    await SeederPlanRollback.run(['--target-org', testOrg.username, '--manifest', manifestPath]);
+
+    expect(deleted).to.deep.equal(['Contact', 'Account']);
+    const remaining = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as RunManifest;
+    expect(remaining.steps).to.deep.equal([]);
+  });
+
+  it('keeps records that failed to delete in the manifest', async () => {
+    $$.SANDBOX.stub(Bulk.prototype, 'load').callsFake(((
+      _sobject: string,
+      _operation: string,
+      records: Array<{ Id: string }>
+    ) =>
+      Promise.resolve(
+        records.map((r, i) => ({ id: r.Id, success: i > 0, errors: i > 0 ? [] : ['ENTITY_IS_LOCKED'] }))
+      )) as never);
+
+    try {
+      await SeederPlanRollback.run(['--target-org', testOrg.username, '--manifest', manifestPath]);
+      expect.fail('expected rollback to fail');
+    } catch (error) {
+      expect((error as Error).message).to.include('2 record(s) could not be deleted');
+    }
+
+    const remaining = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as RunManifest;
+    expect(remaining.steps.map((s) => s.ids)).to.deep.equal([['001000000000001AAA'], ['003000000000001AAA']]);
+  });
+});
@@ -4,43 +4,248 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { TestContext } from '@salesforce/core/testSetup';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
+import { Connection } from '@salesforce/core';
+import { Bulk } from '@jsforce/jsforce-node/lib/api/bulk.js';
 import { expect } from 'chai';
 import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
 import SeederPlanRun from '../../../../src/commands/seeder/plan/run.js';
+import {
+  FieldValue,
+  RunCheckpoint,
+  RunManifest,
+  SeedingFailureReport,
+  SeedingStep,
+} from '../../../../src/types/index.js';
 
 describe('seeder plan run', () => {
   const $$ = new TestContext();
-  let sfCommandStubs: ReturnType<typeof stubSfCommandUx>;
+  const testOrg = new MockTestOrgData();
+  let dir: string;
+  let planPath: string;
 
-  beforeEach(() => {
-    sfCommandStubs = stubSfCommandUx($$.SANDBOX);
+  beforeEach(async () => {
+    stubSfCommandUx($$.SANDBOX);
+    await $$.stubAuths(testOrg);
+    $$.SANDBOX.stub(Connection.prototype, 'identity').resolves({ username: testOrg.username } as never);
+
+    const plan: SeedingStep[] = [
+      { sobject: 'Account', ref: 'Customers', count: 2, fields: { Name: 'Customer #{counter}' } },
+    ];
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seeder-'));
+    planPath = path.join(dir, 'plan.json');
+    fs.writeFileSync(planPath, JSON.stringify(plan));
   });
 
   afterEach(() => {
     $$.restore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the generated records of a dry run', async () => {
+    const result = await SeederPlanRun.run(['--target-org', testOrg.username, '--plan', planPath, '--dryrun']);
+
+    expect(result.dryRun).to.equal(true);
+    expect(result.runId).to.equal(undefined);
+    expect(result.steps).to.have.length(1);
+    expect(result.steps[0]).to.include({ step: 1, sobject: 'Account', ref: 'Customers', requested: 2, inserted: 0 });
+    expect(result.steps[0].records).to.deep.equal([{ Name: 'Customer 1' }, { Name: 'Customer 2' }]);
   });
 
-  it('runs hello', async () => {
-    await SeederPlanRun.run([]);
-    const output = sfCommandStubs.log
-      .getCalls()
-      .flatMap((c) => c.args)
-      .join('\n');
-    expect(output).to.include('hello world');
+  it('returns identical dry-run records for the same seed', async () => {
+    const plan: SeedingStep[] = [
+      {
+        sobject: 'Account',
+        count: 3,
+        fields: {
+          Name: '#{faker.company.name} #{counter}',
+          Rating: '#{pick(["Hot","Warm","Cold"],[0.2,0.5,0.3])}',
+          NumberOfEmployees: '#{faker.number.int({ min: 1, max: 500 })}',
+        },
+      },
+    ];
+    fs.writeFileSync(planPath, JSON.stringify(plan));
+    const dryRun = async (seed: string): Promise<Array<Record<string, FieldValue>> | undefined> => {
+      const result = await SeederPlanRun.run([
+        '--target-org',
+        testOrg.username,
+        '--plan',
+        planPath,
+        '--dryrun',
+        '--seed',
+        seed,
+      ]);
+      return result.steps[0].records;
+    };
+
+    const first = await dryRun('42');
+
+    expect(first).to.have.length(3);
+    expect(await dryRun('42')).to.deep.equal(first);
+    expect(await dryRun('7')).to.not.deep.equal(first);
   });
 
-  it('runs hello with --json and no provided name', async () => {
-    const result = await SeederPlanRun.run([]);
-    expect(result.path).to.equal('src/commands/seeder/plan/run.ts');
+  it('returns inserted IDs and failures per step', async () => {
+    $$.SANDBOX.stub(Bulk.prototype, 'load').resolves([
+      { id: '001000000000001AAA', success: true, errors: [] },
+      { id: undefined, success: false, errors: ['DUPLICATE_VALUE:duplicate value found:Name --'] },
+    ] as never);
+    const manifestPath = path.join(dir, 'manifest.json');
+    const failuresPath = path.join(dir, 'failures.json');
+
+    const result = await SeederPlanRun.run([
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--manifest',
+      manifestPath,
+      '--failures',
+      failuresPath,
+    ]);
+
+    expect(result.dryRun).to.equal(false);
+    expect(result.manifest).to.equal(manifestPath);
+    expect(result.runId).to.be.a('string');
+    expect(result.steps[0]).to.deep.include({
+      requested: 2,
+      inserted: 1,
+      failed: 1,
+      ids: ['001000000000001AAA'],
+      errors: ['DUPLICATE_VALUE: duplicate value found:Name --'],
+    });
+    expect(result.failures).to.equal(failuresPath);
+
+    const report = JSON.parse(fs.readFileSync(failuresPath, 'utf-8')) as SeedingFailureReport;
+    expect(report).to.include({ kind: 'seeding', runId: result.runId, org: testOrg.username, manifest: manifestPath });
+    expect(report.failures).to.deep.equal([
+      {
+        step: 1,
+        sobject: 'Account',
+        ref: 'Customers',
+        index: 1,
+        total: 2,
+        payload: { Name: 'Customer 2' },
+        references: {},
+        errors: [{ code: 'DUPLICATE_VALUE', message: 'duplicate value found:Name --' }],
+      },
+    ]);
   });
 
-  it('runs hello world --name Astro', async () => {
-    await SeederPlanRun.run(['--name', 'Astro']);
-    const output = sfCommandStubs.log
-      .getCalls()
-      .flatMap((c) => c.args)
-      .join('\n');
-    expect(output).to.include('hello Astro');
+  it('writes through the REST API in batches with --api auto', async () => {
+    const bulkLoad = $$.SANDBOX.stub(Bulk.prototype, 'load');
+    const batches: string[][] = [];
+    $$.fakeConnectionRequest = (request) => {
+      const { records } = JSON.parse((request as { body: string }).body) as { records: Array<{ Name: string }> };
+      batches.push(records.map((r) => r.Name));
+      return Promise.resolve(
+        records.map(() => ({ id: `001T0000000000${batches.length}AAA`, success: true, errors: [] }))
+      );
+    };
+
+    const result = await SeederPlanRun.run([
+      '--target-org',
+      testOrg.username,
+      '--plan',
+      planPath,
+      '--manifest',
+      path.join(dir, 'manifest.json'),
+      '--api',
+      'auto',
+      '--batch-size',
+      '1',
+      '--concurrency-mode',
+      'Serial',
+    ]);
+
+    expect(bulkLoad.called).to.equal(false);
+    expect(batches).to.deep.equal([['Customer 1'], ['Customer 2']]);
+    expect(result.steps[0]).to.deep.include({ inserted: 2, ids: ['001T00000000001AAA', '001T00000000002AAA'] });
+  });
+
+  describe('checkpoints', () => {
+    let manifestPath: string;
+    let checkpointPath: string;
+
+    beforeEach(() => {
+      const plan: SeedingStep[] = [
+        { sobject: 'Account', ref: 'Customers', count: 1, saveRefs: true, fields: { Name: 'Customer' } },
+        { sobject: 'Contact', count: 1, fields: { LastName: 'Doe', AccountId: '@{Customers.Id}' } },
+      ];
+      fs.writeFileSync(planPath, JSON.stringify(plan));
+      manifestPath = path.join(dir, 'run.json');
+      checkpointPath = path.join(dir, 'run.checkpoint.json');
+    });
+
+    it('resumes from the step that failed, restoring saved references', async () => {
+      const load = $$.SANDBOX.stub(Bulk.prototype, 'load');
+      load.onFirstCall().resolves([{ id: '001000000000001AAA', success: true, errors: [] }] as never);
+      load.onSecondCall().rejects(new Error('INVALID_SESSION_ID'));
+
+      try {
+        await SeederPlanRun.run(['--target-org', testOrg.username, '--plan', planPath, '--manifest', manifestPath]);
+        expect.fail('expected the run to fail');
+      } catch (error) {
+        expect((error as Error).message).to.include('INVALID_SESSION_ID');
+      }
+
+      const checkpoint = JSON.parse(fs.readFileSync(checkpointPath, 'utf-8')) as RunCheckpoint;
+      expect(checkpoint.completedSteps).to.deep.equal([1]);
+      expect(checkpoint.references.Customers.records.map((r) => r.id)).to.deep.equal(['001000000000001AAA']);
+
+      const sent: Array<Array<Record<string, FieldValue>>> = [];
+      load.reset();
+      load.callsFake(((
+        _sobject: string,
+        _operation: string,
+        _options: unknown,
+        records: Array<Record<string, FieldValue>>
+      ) => {
+        sent.push(records);
+        return Promise.resolve([{ id: '003000000000001AAA', success: true, errors: [] }]);
+      }) as never);
+
+      const result = await SeederPlanRun.run([
+        '--target-org',
+        testOrg.username,
+        '--plan',
+        planPath,
+        '--resume',
+        checkpointPath,
+      ]);
+
+      expect(result.runId).to.equal(checkpoint.runId);
+      expect(sent).to.deep.equal([[{ LastName: 'Doe', AccountId: '001000000000001AAA' }]]);
+      expect(result.steps.map((s) => s.step)).to.deep.equal([2]);
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as RunManifest;
+      expect(manifest.steps.map((s) => s.ids)).to.deep.equal([['001000000000001AAA'], ['003000000000001AAA']]);
+      expect(fs.existsSync(checkpointPath)).to.equal(false);
+    });
+
+    it('refuses to resume a plan that changed', async () => {
+      const load = $$.SANDBOX.stub(Bulk.prototype, 'load');
+      load.onFirstCall().resolves([{ id: '001000000000001AAA', success: true, errors: [] }] as never);
+      load.onSecondCall().rejects(new Error('INVALID_SESSION_ID'));
+      try {
+        await SeederPlanRun.run(['--target-org', testOrg.username, '--plan', planPath, '--manifest', manifestPath]);
+      } catch {
+        // Leaves the checkpoint behind
+      }
+
+      const changed: SeedingStep[] = [
+        { sobject: 'Account', ref: 'Customers', count: 5, saveRefs: true, fields: { Name: 'Customer' } },
+      ];
+      fs.writeFileSync(planPath, JSON.stringify(changed));
+
+      try {
+        await SeederPlanRun.run(['--target-org', testOrg.username, '--plan', planPath, '--resume', checkpointPath]);
+        expect.fail('expected resume to fail');
+      } catch (error) {
+        expect((error as Error).message).to.include('cannot be resumed');
+      }
+    });
   });
 });
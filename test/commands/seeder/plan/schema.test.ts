@@ -0,0 +1,74 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { TestContext } from '@salesforce/core/testSetup';
+import { expect } from 'chai';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import SeederPlanSchema from '../../../../src/commands/seeder/plan/schema.js';
+import { validateAgainstSchema } from '../../../../src/utils/schema.js';
+
+describe('seeder plan schema', () => {
+  const $$ = new TestContext();
+  let sfCommandStubs: ReturnType<typeof stubSfCommandUx>;
+
+  beforeEach(() => {
+    sfCommandStubs = stubSfCommandUx($$.SANDBOX);
+  });
+
+  afterEach(() => {
+    $$.restore();
+  });
+
+  it('prints the seeding plan schema by default', async () => {
+    await SeederPlanSchema.run([]);
+    const output = sfCommandStubs.log
+      .getCalls()
+      .flatMap((c) => c.args)
+      .join('\n');
+    expect(JSON.parse(output)).to.have.property('title', 'sf-seeder seeding plan');
+  });
+
+  it('reports schema errors with JSON pointers', () => {
+    const issues = validateAgainstSchema('seeding', {
+      steps: [{ sobject: 'Account', count: 0, fields: {}, extra: 1 }],
+    });
+    expect(issues).to.deep.include({ pointer: '/steps/0/count', message: 'must be >= 1' });
+    expect(issues).to.deep.include({ pointer: '/steps/0', message: 'unknown property "extra"' });
+  });
+
+  it('accepts both seeding plan formats and migration plans', () => {
+    expect(validateAgainstSchema('seeding', [{ sobject: 'Account', count: 1, fields: { Name: 'A' } }])).to.be.empty;
+    expect(validateAgainstSchema('seeding', { seed: 42, steps: [] })).to.be.empty;
+    expect(validateAgainstSchema('seeding', { extends: './base.yaml', steps: [{ include: './contacts.yaml' }] })).to.be
+      .empty;
+    expect(validateAgainstSchema('migration', { objects: [{ sobject: 'Account', operation: 'Upsert' }] })).to.be.empty;
+  });
+
+  it('accepts variable tokens in numeric and boolean properties', () => {
+    expect(
+      validateAgainstSchema('seeding', {
+        variables: { n: 3 },
+        steps: [
+          {
+            sobject: 'Account',
+            count: '${var.n}',
+            saveRefs: '${var.save}',
+            fields: { Name: 'A' },
+            nullRate: { Name: '${var.rate}' },
+          },
+        ],
+      })
+    ).to.be.empty;
+    expect(validateAgainstSchema('migration', { objects: [{ sobject: 'Account', maxRecords: '${var.n}' }] })).to.be
+      .empty;
+    expect(
+      validateAgainstSchema('seeding', [{ sobject: 'Account', count: 'three', fields: { Name: 'A' } }])
+    ).to.deep.include({
+      pointer: '/0/count',
+      message: 'must match pattern "^\\$\\{var\\.[^}]+\\}$"',
+    });
+  });
+});
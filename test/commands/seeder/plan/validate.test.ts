@@ -4,43 +4,114 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { TestContext } from '@salesforce/core/testSetup';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
+import { Connection, SfError } from '@salesforce/core';
 import { expect } from 'chai';
 import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
 import SeederPlanValidate from '../../../../src/commands/seeder/plan/validate.js';
+import { SeederPlanValidateResult } from '../../../../src/types/index.js';
 
 describe('seeder plan validate', () => {
   const $$ = new TestContext();
-  let sfCommandStubs: ReturnType<typeof stubSfCommandUx>;
+  const testOrg = new MockTestOrgData();
+  let dir: string;
 
-  beforeEach(() => {
-    sfCommandStubs = stubSfCommandUx($$.SANDBOX);
+  function writePlan(plan: unknown): string {
+    const planPath = path.join(dir, 'plan.json');
+    fs.writeFileSync(planPath, JSON.stringify(plan));
+    return planPath;
+  }
+
+  beforeEach(async () => {
+    stubSfCommandUx($$.SANDBOX);
+    await $$.stubAuths(testOrg);
+    $$.SANDBOX.stub(Connection.prototype, 'identity').resolves({ username: testOrg.username } as never);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seeder-'));
   });
 
   afterEach(() => {
     $$.restore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns no diagnostics for a valid plan', async () => {
+    const planPath = writePlan([
+      { sobject: 'Account', count: 1, saveRefs: true, fields: { Name: '#{faker.company.name}' } },
+      { sobject: 'Contact', count: 2, fields: { LastName: 'Doe', AccountId: '@{Account.Id}' } },
+    ]);
+
+    const result = await SeederPlanValidate.run(['--target-org', testOrg.username, '--plan', planPath]);
+
+    expect(result).to.deep.equal({ valid: true, steps: 2, diagnostics: [] });
+  });
+
+  it('fails with the diagnostics of an invalid plan as error data', async () => {
+    const planPath = writePlan([{ sobject: 'Contact', count: 1, fields: { AccountId: '@{Account.Id}' } }]);
+
+    try {
+      await SeederPlanValidate.run(['--target-org', testOrg.username, '--plan', planPath, '--json']);
+      expect.fail('expected the validation to fail');
+    } catch (error) {
+      const { name, exitCode, data } = error as SfError<SeederPlanValidateResult>;
+      expect(name).to.equal('PlanValidationFailed');
+      expect(exitCode).to.equal(1);
+      expect(data).to.deep.equal({
+        valid: false,
+        steps: 1,
+        diagnostics: ['Step 1: Reference "Account" not found in plan.'],
+      });
+    }
   });
 
-  it('runs hello', async () => {
-    await SeederPlanValidate.run([]);
-    const output = sfCommandStubs.log
-      .getCalls()
-      .flatMap((c) => c.args)
-      .join('\n');
-    expect(output).to.include('hello world');
+  it('accepts a variable token as the count of a step', async () => {
+    const planPath = writePlan({
+      variables: { accounts: 3 },
+      steps: [{ sobject: 'Account', count: '${var.accounts}', fields: { Name: '#{faker.company.name}' } }],
+    });
+
+    const result = await SeederPlanValidate.run(['--target-org', testOrg.username, '--plan', planPath]);
+
+    expect(result).to.deep.equal({ valid: true, steps: 1, diagnostics: [] });
+  });
+
+  it('accepts partial override steps in a plan that extends another', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'base.json'),
+      JSON.stringify({ steps: [{ sobject: 'Account', count: 1, fields: { Name: '#{faker.company.name}' } }] })
+    );
+    const planPath = writePlan({ extends: 'base.json', steps: [{ sobject: 'Account', count: 5 }] });
+
+    const result = await SeederPlanValidate.run(['--target-org', testOrg.username, '--plan', planPath]);
+
+    expect(result).to.deep.equal({ valid: true, steps: 1, diagnostics: [] });
   });
 
-  it('runs hello with --json and no provided name', async () => {
-    const result = await SeederPlanValidate.run([]);
-    expect(result.path).to.equal('src/commands/seeder/plan/validate.ts');
+  it('still requires count and fields on steps an extending plan adds', async () => {
+    fs.writeFileSync(path.join(dir, 'base.json'), JSON.stringify({ steps: [] }));
+    const planPath = writePlan({ extends: 'base.json', steps: [{ sobject: 'Contact', count: 2 }] });
+
+    try {
+      await SeederPlanValidate.run(['--target-org', testOrg.username, '--plan', planPath, '--json']);
+      expect.fail('expected the validation to fail');
+    } catch (error) {
+      const { data } = error as SfError<SeederPlanValidateResult>;
+      expect(data?.diagnostics).to.deep.equal(['Step 1: Missing or invalid "fields"']);
+    }
   });
 
-  it('runs hello world --name Astro', async () => {
-    await SeederPlanValidate.run(['--name', 'Astro']);
-    const output = sfCommandStubs.log
-      .getCalls()
-      .flatMap((c) => c.args)
-      .join('\n');
-    expect(output).to.include('hello Astro');
+  it('reports schema errors with their JSON pointer', async () => {
+    const planPath = writePlan({ steps: [{ sobject: 'Account', count: 0, fields: {} }] });
+
+    try {
+      await SeederPlanValidate.run(['--target-org', testOrg.username, '--plan', planPath, '--json']);
+      expect.fail('expected the validation to fail');
+    } catch (error) {
+      const { data } = error as SfError<SeederPlanValidateResult>;
+      expect(data?.valid).to.equal(false);
+      expect(data?.diagnostics[0]).to.match(/plan\.json#\/steps\/0\/count: must be >= 1$/);
+    }
   });
 });
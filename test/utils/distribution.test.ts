@@ -0,0 +1,101 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { FieldValue } from '../../src/types/index.js';
+import {
+  DistributionExpression,
+  parseDistributionExpression,
+  resolveDistribution,
+  rollNull,
+} from '../../src/utils/distribution.js';
+import { seedFaker } from '../../src/utils/faker.js';
+import { buildPicklistExpression } from '../../src/utils/picklist.js';
+
+function draw(expression: string, times: number): FieldValue[] {
+  const parsed = parseDistributionExpression(expression) as DistributionExpression;
+  return Array.from({ length: times }, () => resolveDistribution(parsed, {}));
+}
+
+describe('distribution', () => {
+  beforeEach(() => {
+    seedFaker(1);
+  });
+
+  it('parses pick values with weights, defaulting to equal weights', () => {
+    expect(parseDistributionExpression('pick(["Hot","Warm","Cold"],[0.2,0.5,0.3])')).to.deep.equal({
+      kind: 'pick',
+      values: ['Hot', 'Warm', 'Cold'],
+      weights: [0.2, 0.5, 0.3],
+    });
+    expect(parseDistributionExpression("pick(['Hot', null])")).to.deep.equal({
+      kind: 'pick',
+      values: ['Hot', null],
+      weights: [1, 1],
+    });
+    expect(parseDistributionExpression('faker.company.name')).to.equal(null);
+  });
+
+  it('rejects pick weights that do not match the values', () => {
+    expect(() => parseDistributionExpression('pick([])')).to.throw('pick() expects a non-empty array of values');
+    expect(() => parseDistributionExpression('pick(["Hot","Warm"],[1])')).to.throw(
+      'pick() weights must be non-negative numbers, one per value'
+    );
+    expect(() => parseDistributionExpression('pick(["Hot","Warm"],[1,-1])')).to.throw(
+      'pick() weights must be non-negative numbers, one per value'
+    );
+    expect(() => parseDistributionExpression('pick(["Hot","Warm"],[0,0])')).to.throw(
+      'pick() needs at least one weight greater than 0'
+    );
+    expect(() => parseDistributionExpression('pick(Hot)')).to.throw('Arguments of pick() are not valid JSON');
+  });
+
+  it('picks values in proportion to their weights', () => {
+    const values = draw('pick(["Hot","Warm","Cold"],[0.8,0.2,0])', 1000);
+    const hot = values.filter((v) => v === 'Hot').length;
+
+    expect(values).to.not.include('Cold');
+    expect(hot).to.be.within(700, 900);
+  });
+
+  it('parses ranges and rejects bounds in the wrong order', () => {
+    expect(parseDistributionExpression('range(1, 100)')).to.deep.equal({
+      kind: 'range',
+      min: 1,
+      max: 100,
+      decimals: undefined,
+    });
+    expect(() => parseDistributionExpression('range(10, 1)')).to.throw('with the minimum not above the maximum');
+    expect(() => parseDistributionExpression('range(0.2, 0.8)')).to.throw('needs a whole number between');
+    expect(() => parseDistributionExpression('range(0, 1, 1.5)')).to.throw(
+      'range() decimals must be a non-negative integer'
+    );
+  });
+
+  it('draws whole numbers or fixed decimals within the range', () => {
+    for (const value of draw('range(1, 3)', 50)) {
+      expect(value).to.be.oneOf([1, 2, 3]);
+    }
+    for (const value of draw('range(0.5, 1.5, 2)', 50)) {
+      expect(value).to.be.within(0.5, 1.5);
+      expect(String(value)).to.match(/^\d\.\d{1,2}$|^1$/);
+    }
+  });
+
+  it('nulls a field at its null rate', () => {
+    const rolls = Array.from({ length: 1000 }, () => rollNull(0.25));
+
+    expect(rollNull(undefined)).to.equal(false);
+    expect(rollNull(0)).to.equal(false);
+    expect(rollNull(1)).to.equal(true);
+    expect(rolls.filter(Boolean).length).to.be.within(180, 320);
+  });
+
+  it('builds an equally weighted pick for picklist values', () => {
+    expect(buildPicklistExpression([{ value: 'Hot' }, { value: 'Warm' }])).to.equal('#{pick(["Hot","Warm"],[1,1])}');
+    expect(buildPicklistExpression([])).to.equal(null);
+  });
+});
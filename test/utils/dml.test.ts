@@ -0,0 +1,76 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Connection } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+import { Bulk } from '@jsforce/jsforce-node/lib/api/bulk.js';
+import { expect } from 'chai';
+import { executeDml, MAX_PARALLEL_BATCHES } from '../../src/utils/dml.js';
+
+describe('dml', () => {
+  // A connection whose inserts resolve on the next tick, counting the requests in flight
+  function fakeConnection(): { conn: Connection; peak: () => number; requests: () => number } {
+    let inFlight = 0;
+    let peak = 0;
+    let requests = 0;
+    const conn = {
+      insert: async (_sobject: string, records: Array<Record<string, unknown>>) => {
+        requests++;
+        peak = Math.max(peak, ++inFlight);
+        await new Promise((resolve) => setImmediate(resolve));
+        inFlight--;
+        return records.map((record) => ({ id: `001T${String(record.Name)}`, success: true, errors: [] }));
+      },
+    } as unknown as Connection;
+    return { conn, peak: () => peak, requests: () => requests };
+  }
+
+  const records = Array.from({ length: 23 }, (_, i) => ({ Name: String(i).padStart(2, '0') }));
+
+  it('caps the REST batches in flight in Parallel mode and keeps results in record order', async () => {
+    const fake = fakeConnection();
+
+    const results = await executeDml(fake.conn, 'Account', 'insert', records, { api: 'rest', batchSize: 2 });
+
+    expect(fake.requests()).to.equal(12);
+    expect(fake.peak()).to.equal(MAX_PARALLEL_BATCHES);
+    expect(results.map((r) => r.id)).to.deep.equal(records.map((r) => `001T${r.Name}`));
+  });
+
+  it('sends one batch at a time in Serial mode', async () => {
+    const fake = fakeConnection();
+
+    await executeDml(fake.conn, 'Account', 'insert', records, {
+      api: 'rest',
+      batchSize: 2,
+      concurrencyMode: 'Serial',
+    });
+
+    expect(fake.peak()).to.equal(1);
+  });
+
+  describe('bulk', () => {
+    const $$ = new TestContext();
+
+    afterEach(() => {
+      $$.restore();
+    });
+
+    it('applies the poll timeout to its own jobs without changing the shared bulk client', async () => {
+      const timeouts: number[] = [];
+      $$.SANDBOX.stub(Bulk.prototype, 'load').callsFake(function (this: { pollTimeout: number }) {
+        timeouts.push(this.pollTimeout);
+        return Promise.resolve([{ id: '001T00', success: true, errors: [] }]) as never;
+      });
+      const conn = { bulk: { pollTimeout: 30_000 } } as unknown as Connection;
+
+      await executeDml(conn, 'Account', 'insert', [{ Name: 'A' }], { api: 'bulk', pollTimeout: 600 });
+
+      expect(timeouts).to.deep.equal([600_000]);
+      expect(conn.bulk.pollTimeout).to.equal(30_000);
+    });
+  });
+});
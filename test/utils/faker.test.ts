@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import {
+  getFakerExpressionError,
+  parseFakerExpression,
+  pickRandom,
+  resolveFakerExpression,
+  seedFaker,
+  suggestFakerAlternative,
+} from '../../src/utils/faker.js';
+
+function draw(seed: number): unknown[] {
+  seedFaker(seed);
+  const warn = (msg: string): never => expect.fail(msg);
+  return [
+    resolveFakerExpression('#{faker.person.firstName}', warn),
+    resolveFakerExpression('#{faker.number.int}', warn),
+    resolveFakerExpression('#{faker.date.past}', warn),
+    pickRandom(['001A', '001B', '001C', '001D']),
+  ];
+}
+
+describe('faker', () => {
+  it('produces the same values and picks for the same seed', () => {
+    const first = draw(42);
+
+    expect(draw(42)).to.deep.equal(first);
+    expect(draw(7)).to.not.deep.equal(first);
+  });
+
+  it('generates seeded dates from a fixed reference date', () => {
+    const [, , date] = draw(42);
+
+    expect(date).to.be.a('string');
+    expect(new Date(date as string).getTime()).to.be.below(Date.parse('2025-01-01T00:00:00.000Z'));
+  });
+
+  it('parses JSON5 arguments of a faker expression', () => {
+    expect(parseFakerExpression("#{faker.date.between({ from: '2024-01-01', to: '2024-12-31' })}")).to.deep.equal({
+      path: ['date', 'between'],
+      args: [{ from: '2024-01-01', to: '2024-12-31' }],
+      argsText: "({ from: '2024-01-01', to: '2024-12-31' })",
+    });
+    expect(parseFakerExpression('#{faker.string.alphanumeric(10)}')).to.deep.include({ args: [10] });
+    expect(parseFakerExpression('#{faker.person.firstName}')).to.deep.include({ args: [], argsText: '' });
+    expect(parseFakerExpression('Customer')).to.equal(null);
+  });
+
+  it('passes the arguments to faker', () => {
+    seedFaker(1);
+    const warn = (msg: string): never => expect.fail(msg);
+
+    for (let i = 0; i < 20; i++) {
+      expect(resolveFakerExpression('#{faker.number.int({ min: 1, max: 3 })}', warn)).to.be.within(1, 3);
+    }
+    expect(resolveFakerExpression('#{faker.string.alphanumeric(10)}', warn)).to.have.length(10);
+  });
+
+  it('rejects malformed expressions and arguments faker does not accept', () => {
+    expect(getFakerExpressionError('#{faker.number.int({ min: 1, max: 10 })}')).to.equal(null);
+    expect(getFakerExpressionError('#{faker.1x}')).to.equal('Malformed faker expression: 1x');
+    expect(getFakerExpressionError('#{faker.number.int(min: 1)}')).to.match(/^Arguments are not valid JSON/);
+    expect(getFakerExpressionError('#{faker.number.int({ min: 10, max: 1 })}')).to.equal(
+      'faker rejected the arguments: Max 1 should be greater than min 10.'
+    );
+    expect(getFakerExpressionError('#{faker.definitions.company}')).to.equal(
+      'faker.definitions.company does not produce a value'
+    );
+  });
+
+  it('suggests a method on the closest path and keeps the arguments', () => {
+    expect(getFakerExpressionError('#{faker.numbr.int({ min: 1 })}')).to.equal('Unknown faker method: faker.numbr.int');
+    expect(suggestFakerAlternative('#{faker.numbr.int({ min: 1 })}')).to.equal('#{faker.number.int({ min: 1 })}');
+    expect(suggestFakerAlternative('#{faker.number.integer(5)}')).to.equal('#{faker.number.int(5)}');
+  });
+});
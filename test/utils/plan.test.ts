@@ -0,0 +1,114 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import { describePlanSource, getPlanSource, readPlanFile, readSeedingPlan } from '../../src/utils/plan.js';
+import { validatePlanStructure } from '../../src/utils/validator.js';
+
+describe('plan', () => {
+  let dir: string;
+
+  const write = (name: string, content: string): string => {
+    const file = path.join(dir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    return file;
+  };
+  const relative = (name: string): string => path.relative(process.cwd(), path.join(dir, name));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seeder-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads YAML and JSON5 plans', () => {
+    const yaml = write('plan.yaml', '# Accounts\n- sobject: Account\n  count: 2\n  fields:\n    Name: Acme\n');
+    const json5 = write('plan.json5', "[{ sobject: 'Account', count: 2, fields: { Name: 'Acme' } }, // Accounts\n]");
+
+    expect(readPlanFile(yaml)).to.deep.equal([{ sobject: 'Account', count: 2, fields: { Name: 'Acme' } }]);
+    expect(readPlanFile(json5)).to.deep.equal(readPlanFile(yaml));
+    expect(() => readPlanFile(write('bad.json', '{ sobject: 1 }'))).to.throw(`Invalid plan file ${dir}`);
+  });
+
+  it('splices included steps in place and labels them with their file and pointer', () => {
+    write(
+      'shared/accounts.yaml',
+      'steps:\n  - sobject: Account\n    ref: Customers\n    count: 1\n    saveRefs: true\n    fields:\n      Name: Acme\n'
+    );
+    const planFile = write(
+      'plan.json',
+      JSON.stringify([
+        { include: 'shared/accounts.yaml' },
+        { sobject: 'Contact', count: 1, fields: { LastName: 'Doe', AccountId: '@{Customers.Id}' } },
+      ])
+    );
+
+    const { steps } = readSeedingPlan(planFile);
+
+    expect(steps.map((s) => s.sobject)).to.deep.equal(['Account', 'Contact']);
+    expect(describePlanSource(getPlanSource(steps[0])!)).to.equal(`${relative('shared/accounts.yaml')}#/steps/0`);
+    expect(getPlanSource(steps[1])).to.equal(undefined);
+  });
+
+  it('merges extended steps by reference key and inherits the base settings', () => {
+    write(
+      'base.yaml',
+      [
+        'seed: 1',
+        'steps:',
+        '  - { sobject: Account, count: 2, fields: { Name: Acme, Industry: Banking } }',
+        '  - { sobject: Contact, count: 2, fields: { LastName: Doe } }',
+      ].join('\n')
+    );
+    const planFile = write(
+      'team.yaml',
+      [
+        'extends: base.yaml',
+        'steps:',
+        '  - { sobject: Account, count: 5, fields: { Industry: Retail } }',
+        '  - { sobject: Case, count: 1, fields: { Subject: Help } }',
+      ].join('\n')
+    );
+
+    const plan = readSeedingPlan(planFile);
+
+    expect(plan.seed).to.equal(1);
+    expect(plan.steps).to.deep.equal([
+      { sobject: 'Account', count: 5, fields: { Name: 'Acme', Industry: 'Retail' } },
+      { sobject: 'Contact', count: 2, fields: { LastName: 'Doe' } },
+      { sobject: 'Case', count: 1, fields: { Subject: 'Help' } },
+    ]);
+    expect(describePlanSource(getPlanSource(plan.steps[1])!)).to.equal(`${relative('base.yaml')}#/steps/1`);
+  });
+
+  it('reports validation errors against the file the step is written in', () => {
+    write('shared/contacts.yaml', '- { sobject: Contact, count: 0, fields: { LastName: Doe } }\n');
+    const planFile = write('plan.yaml', '- include: shared/contacts.yaml\n');
+    const warnings: string[] = [];
+
+    expect(validatePlanStructure(readSeedingPlan(planFile).steps, (msg) => warnings.push(msg))).to.equal(false);
+    expect(warnings).to.deep.equal([`Step 1 (${relative('shared/contacts.yaml')}#/0): Missing or invalid "count"`]);
+  });
+
+  it('rejects circular and missing includes', () => {
+    write('a.yaml', '- include: b.yaml\n');
+    write('b.yaml', '- include: a.yaml\n');
+    const missing = write('missing.yaml', '- include: nowhere.yaml\n');
+
+    expect(() => readSeedingPlan(path.join(dir, 'a.yaml'))).to.throw(
+      `Circular plan include: ${relative('a.yaml')} -> ${relative('b.yaml')} -> ${relative('a.yaml')}`
+    );
+    expect(() => readSeedingPlan(missing)).to.throw(
+      `Plan file ${path.join(dir, 'nowhere.yaml')} not found (included from ${relative('missing.yaml')}).`
+    );
+  });
+});
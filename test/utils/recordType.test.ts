@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Connection } from '@salesforce/core';
+import { expect } from 'chai';
+import { Field } from 'jsforce';
+import { parseDistributionExpression, resolveDistribution } from '../../src/utils/distribution.js';
+import { seedFaker } from '../../src/utils/faker.js';
+import { buildPicklistExpression, getPicklistOptions } from '../../src/utils/picklist.js';
+import { fetchRecordTypeIds, parseRecordTypeExpression, recordTypeKey } from '../../src/utils/recordType.js';
+
+describe('record types and dependent picklists', () => {
+  it('parses record type tokens', () => {
+    expect(parseRecordTypeExpression('recordType.Account.Partner')).to.deep.equal({
+      sobject: 'Account',
+      developerName: 'Partner',
+    });
+    expect(parseRecordTypeExpression('faker.company.name')).to.equal(null);
+    expect(() => parseRecordTypeExpression('recordType.Partner')).to.throw(
+      'Invalid record type token "#{recordType.Partner}". Expected #{recordType.SObject.DeveloperName}'
+    );
+  });
+
+  it('looks up the Ids of the record types a plan refers to', async () => {
+    const queries: string[] = [];
+    const conn = {
+      query: (soql: string) => {
+        queries.push(soql);
+        return Promise.resolve({
+          records: [{ Id: '012000000000001AAA', SobjectType: 'Account', DeveloperName: 'Partner', Name: 'Partner' }],
+        });
+      },
+    } as unknown as Connection;
+
+    const ids = await fetchRecordTypeIds(conn, [
+      { sobject: 'Account', count: 1, fields: { Name: 'Acme', RecordTypeId: '#{recordType.Account.Partner}' } },
+      { sobject: 'Contact', count: 1, fields: { LastName: 'Doe #{counter}' } },
+    ]);
+
+    expect(queries).to.have.length(1);
+    expect(queries[0]).to.include("SobjectType IN ('Account')");
+    expect(ids.get(recordTypeKey('account', 'PARTNER'))).to.equal('012000000000001AAA');
+  });
+
+  it('decodes the controlling values each dependent value is valid for', () => {
+    const controller = {
+      name: 'Industry',
+      type: 'picklist',
+      picklistValues: [{ value: 'Banking' }, { value: 'Retail' }, { value: 'Technology' }],
+    } as Field;
+    const field = {
+      name: 'Segment__c',
+      dependentPicklist: true,
+      // One bit per controlling value, most significant first: 0xa0 is Banking and Technology
+      picklistValues: [
+        { value: 'Enterprise', active: true, validFor: Buffer.from([0xa0]).toString('base64') },
+        { value: 'Store', active: true, validFor: Buffer.from([0x40]).toString('base64') },
+        { value: 'Legacy', active: false, validFor: Buffer.from([0xe0]).toString('base64') },
+      ],
+    } as Field;
+
+    const options = getPicklistOptions(field, controller);
+
+    expect(options).to.deep.equal([
+      { value: 'Enterprise', validFor: ['Banking', 'Technology'] },
+      { value: 'Store', validFor: ['Retail'] },
+    ]);
+    expect(buildPicklistExpression(options, 'Industry')).to.equal(
+      '#{pickBy("Industry",{"Banking":["Enterprise"],"Technology":["Enterprise"],"Retail":["Store"]})}'
+    );
+  });
+
+  it('picks a dependent value valid for the controlling value of the record', () => {
+    seedFaker(1);
+    const pickBy = parseDistributionExpression(
+      'pickBy("Industry", { Banking: ["Enterprise"], Retail: ["Store", "Outlet"] })'
+    )!;
+
+    expect(resolveDistribution(pickBy, { Industry: 'Banking' })).to.equal('Enterprise');
+    expect(resolveDistribution(pickBy, { Industry: 'Retail' })).to.be.oneOf(['Store', 'Outlet']);
+    expect(resolveDistribution(pickBy, { Industry: 'Energy' })).to.equal(null);
+    expect(resolveDistribution(pickBy, { Industry: null })).to.equal(null);
+    expect(() => parseDistributionExpression('pickBy("Industry", ["Enterprise"])')).to.throw(
+      'pickBy() expects a controlling field name and an object of controlling values to value arrays'
+    );
+  });
+});
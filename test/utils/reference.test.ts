@@ -0,0 +1,73 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { SavedReference } from '../../src/types/index.js';
+import { seedFaker } from '../../src/utils/faker.js';
+import { getReferenceValue, parseReference, selectReference } from '../../src/utils/reference.js';
+
+const parents: SavedReference[] = ['A', 'B', 'C'].map((name) => ({ id: `001${name}`, fields: { Name: name } }));
+
+function assign(value: string, total: number): string[] {
+  const reference = parseReference(value)!;
+  return Array.from({ length: total }, (_, i) => selectReference(reference, parents, i, total).id);
+}
+
+describe('reference', () => {
+  it('parses the field and strategy of a reference', () => {
+    expect(parseReference('@{Account.Id}')).to.deep.equal({ key: 'Account', field: 'Id', strategy: 'random' });
+    expect(parseReference('@{Account.Name | round-robin}')).to.deep.equal({
+      key: 'Account',
+      field: 'Name',
+      strategy: 'round-robin',
+    });
+    expect(parseReference('@{Account.Id|first(2)}')).to.deep.equal({
+      key: 'Account',
+      field: 'Id',
+      strategy: 'first',
+      limit: 2,
+    });
+    expect(parseReference('Account.Id')).to.equal(null);
+  });
+
+  it('rejects malformed references and unknown strategies', () => {
+    expect(() => parseReference('@{Account}')).to.throw('Invalid reference "@{Account}"');
+    expect(() => parseReference('@{Account.Id | shuffle}')).to.throw(
+      'Invalid reference strategy "shuffle" in "@{Account.Id | shuffle}". Use random, round-robin, sequential or first(N)'
+    );
+    expect(() => parseReference('@{Account.Id | first(0)}')).to.throw('first(N) needs N of at least 1');
+  });
+
+  it('cycles through the parents with round-robin', () => {
+    expect(assign('@{Account.Id | round-robin}', 7)).to.deep.equal([
+      '001A',
+      '001B',
+      '001C',
+      '001A',
+      '001B',
+      '001C',
+      '001A',
+    ]);
+  });
+
+  it('hands out contiguous blocks of parents with sequential', () => {
+    expect(assign('@{Account.Id | sequential}', 6)).to.deep.equal(['001A', '001A', '001B', '001B', '001C', '001C']);
+    expect(assign('@{Account.Id | sequential}', 2)).to.deep.equal(['001A', '001B']);
+  });
+
+  it('only picks among the first N parents with first(N)', () => {
+    seedFaker(1);
+    const picked = assign('@{Account.Id | first(2)}', 50);
+
+    expect(new Set(picked)).to.deep.equal(new Set(['001A', '001B']));
+  });
+
+  it('reads any saved field of the parent, ignoring case', () => {
+    expect(getReferenceValue(parents[0], 'Id')).to.equal('001A');
+    expect(getReferenceValue(parents[0], 'name')).to.equal('A');
+    expect(getReferenceValue(parents[0], 'Industry')).to.equal(undefined);
+  });
+});
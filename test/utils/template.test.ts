@@ -0,0 +1,98 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { FieldValue } from '../../src/types/index.js';
+import {
+  getSelfReferences,
+  orderFieldsBySelfReferences,
+  parseTemplate,
+  renderTemplate,
+} from '../../src/utils/template.js';
+import { validatePlanStructure } from '../../src/utils/validator.js';
+
+describe('template', () => {
+  it('splits literal text and tokens, keeping braces and quotes inside a token', () => {
+    expect(parseTemplate("user#{counter}@#{faker.internet.domainName({ provider: 'a}b' })}.test")).to.deep.equal([
+      { kind: 'literal', text: 'user' },
+      { kind: 'token', expression: 'counter', raw: '#{counter}' },
+      { kind: 'literal', text: '@' },
+      {
+        kind: 'token',
+        expression: "faker.internet.domainName({ provider: 'a}b' })",
+        raw: "#{faker.internet.domainName({ provider: 'a}b' })}",
+      },
+      { kind: 'literal', text: '.test' },
+    ]);
+  });
+
+  it('rejects a token that is never closed', () => {
+    expect(() => parseTemplate('Branch #{faker.number.int({ max: 5 }')).to.throw(
+      'Unterminated token starting at "#{faker.number.int({ max: 5 }"'
+    );
+  });
+
+  it('resolves every token in place and keeps the type of a single token', () => {
+    const values: Record<string, FieldValue> = { counter: 3, 'faker.company.name': 'Acme', empty: null };
+    const resolve = (expression: string): FieldValue => values[expression];
+
+    expect(renderTemplate(parseTemplate('#{faker.company.name} - Branch #{counter}'), resolve)).to.equal(
+      'Acme - Branch 3'
+    );
+    expect(renderTemplate(parseTemplate('#{counter}'), resolve)).to.equal(3);
+    expect(renderTemplate(parseTemplate('[#{empty}]'), resolve)).to.equal('[]');
+  });
+
+  it('validates each embedded token of a plan value', () => {
+    const warnings: string[] = [];
+    const valid = validatePlanStructure(
+      [
+        {
+          sobject: 'Account',
+          count: 1,
+          fields: {
+            Name: '#{faker.company.name} - Branch #{counter}',
+            Site: 'HQ #{faker.company.nam}',
+            Description: 'Owner #{owner}',
+          },
+        },
+      ],
+      (msg) => warnings.push(msg)
+    );
+
+    expect(valid).to.equal(false);
+    expect(warnings).to.have.length(2);
+    expect(warnings[0]).to.match(/^Step 1: Field "Site" has invalid faker expression: "#\{faker.company.nam\}"/);
+    expect(warnings[0]).to.include('Did you mean: "#{faker.company.name}"?');
+    expect(warnings[1]).to.equal('Step 1: Field "Description" has unknown token "#{owner}"');
+  });
+
+  it('lists the fields a value reads from its own record', () => {
+    expect(getSelfReferences('#{this.FirstName}.#{this.LastName}@example.com')).to.deep.equal([
+      'FirstName',
+      'LastName',
+    ]);
+    expect(getSelfReferences('#{pickBy("Industry", { Banking: ["Hot"] })}')).to.deep.equal(['Industry']);
+    expect(getSelfReferences('#{faker.person.firstName}')).to.deep.equal([]);
+  });
+
+  it('orders fields after the fields they read through #{this.*}', () => {
+    expect(
+      orderFieldsBySelfReferences({
+        Email: '#{this.FirstName}.#{this.LastName}@example.com',
+        Description: 'Contact #{this.Email}',
+        FirstName: '#{faker.person.firstName}',
+        LastName: 'Doe',
+      })
+    ).to.deep.equal(['FirstName', 'LastName', 'Email', 'Description']);
+  });
+
+  it('rejects fields that read each other in a cycle', () => {
+    expect(() =>
+      orderFieldsBySelfReferences({ Name: 'Acme', Site: '#{this.Phone}', Phone: '#{this.Fax}', Fax: '#{this.Site}' })
+    ).to.throw('Circular #{this.*} references: Site -> Phone -> Fax -> Site');
+  });
+});
@@ -0,0 +1,138 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { SeedingStep } from '../../src/types/index.js';
+import { validateFieldValueType, validateMigrationPlan, validatePlanStructure } from '../../src/utils/validator.js';
+
+function validate(plan: SeedingStep[]): { valid: boolean; warnings: string[] } {
+  const warnings: string[] = [];
+  const valid = validatePlanStructure(plan, (msg) => warnings.push(msg));
+  return { valid, warnings };
+}
+
+describe('validator', () => {
+  describe('reference aliases', () => {
+    it('lets children reference each group of the same SObject by its alias', () => {
+      expect(
+        validate([
+          { sobject: 'Account', ref: 'Partners', count: 2, saveRefs: true, fields: { Name: 'Partner' } },
+          { sobject: 'Account', ref: 'Customers', count: 2, saveRefs: true, fields: { Name: 'Customer' } },
+          { sobject: 'Contact', count: 2, fields: { LastName: 'Doe', AccountId: '@{Partners.Id}' } },
+        ])
+      ).to.deep.equal({ valid: true, warnings: [] });
+    });
+
+    it('rejects invalid and duplicate aliases', () => {
+      expect(
+        validate([
+          { sobject: 'Account', ref: 'Partners', count: 1, fields: { Name: 'Partner' } },
+          { sobject: 'Account', ref: 'Partners', count: 1, fields: { Name: 'Reseller' } },
+          { sobject: 'Account', ref: 'Key Accounts', count: 1, fields: { Name: 'Key' } },
+        ])
+      ).to.deep.equal({
+        valid: false,
+        warnings: [
+          'Step 2: "ref" "Partners" is already used by step 1.',
+          'Step 3: Invalid "ref" "Key Accounts". Use letters, digits and underscores only.',
+        ],
+      });
+    });
+
+    it('reports references to an alias that saves no records', () => {
+      expect(
+        validate([
+          { sobject: 'Account', ref: 'Partners', count: 1, fields: { Name: 'Partner' } },
+          { sobject: 'Contact', count: 1, fields: { LastName: 'Doe', AccountId: '@{Partners.Id}' } },
+        ])
+      ).to.deep.equal({ valid: false, warnings: ['Step 2: Reference "Partners" not found in plan.'] });
+    });
+
+    it('checks an aliased lookup against the SObject behind the alias', () => {
+      const warnings: string[] = [];
+      const referenceKeys = new Map([['Partners', 'Account']]);
+      const check = (referenceTo: string[]): boolean =>
+        validateFieldValueType(
+          'Step 2',
+          'AccountId',
+          '@{Partners.Id}',
+          'reference',
+          referenceTo,
+          new Map(),
+          (msg) => warnings.push(msg),
+          referenceKeys
+        );
+
+      expect(check(['Account'])).to.equal(true);
+      expect(check(['User'])).to.equal(false);
+      expect(warnings).to.deep.equal(['Step 2: Invalid reference on field "AccountId". Expected User']);
+    });
+  });
+
+  describe('same-record references', () => {
+    it('reports cycles and fields that are not part of the step', () => {
+      expect(
+        validate([
+          {
+            sobject: 'Contact',
+            count: 1,
+            fields: {
+              FirstName: '#{this.LastName}',
+              LastName: '#{this.FirstName}',
+              Email: '#{this.Username}@example.com',
+            },
+          },
+        ])
+      ).to.deep.equal({
+        valid: false,
+        warnings: [
+          'Step 1: Circular #{this.*} references: FirstName -> LastName -> FirstName',
+          'Step 1: Field "Email" references "Username", which is not a field of this step',
+        ],
+      });
+    });
+  });
+
+  describe('migration plans', () => {
+    it('requires an externalId on Upsert objects', () => {
+      const warnings: string[] = [];
+      const valid = validateMigrationPlan(
+        {
+          objects: [
+            { sobject: 'Account', operation: 'Upsert', externalId: 'External_Id__c' },
+            { sobject: 'Contact', operation: 'Upsert' },
+            { sobject: 'Case' },
+          ],
+        },
+        (msg) => warnings.push(msg)
+      );
+
+      expect(valid).to.equal(false);
+      expect(warnings).to.deep.equal(['Object 2: Upsert needs an "externalId" to match records on']);
+    });
+  });
+
+  describe('null rates', () => {
+    it('requires a rate between 0 and 1 for a field of the step', () => {
+      expect(
+        validate([
+          {
+            sobject: 'Account',
+            count: 1,
+            fields: { Name: 'Acme', Industry: '#{pick(["Banking","Retail"])}' },
+            nullRate: { Industry: 1.5, Phone: 0.1 },
+          },
+        ])
+      ).to.deep.equal({
+        valid: false,
+        warnings: [
+          'Step 1: "nullRate" for "Industry" must be a number between 0 and 1',
+          'Step 1: "nullRate" lists "Phone", which is not a field of this step',
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/*
+ * Copyright (c) 2023, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import { collectVariables, parseVarFlags, resolveVariables } from '../../src/utils/variables.js';
+
+describe('variables', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seeder-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('types --var numbers, booleans and null and keeps other values as text', () => {
+    expect(
+      parseVarFlags([
+        'count=5',
+        'rate=0.25',
+        'active=true',
+        'owner=null',
+        'region=EMEA',
+        'closeDate=2025-12-31',
+        'zip=02134',
+        'code="12345"',
+        'empty=',
+        'list=[1,2]',
+        "filter=Name = 'x'",
+      ])
+    ).to.deep.equal({
+      count: 5,
+      rate: 0.25,
+      active: true,
+      owner: null,
+      region: 'EMEA',
+      closeDate: '2025-12-31',
+      zip: '02134',
+      code: '12345',
+      empty: '',
+      list: '[1,2]',
+      filter: "Name = 'x'",
+    });
+  });
+
+  it('rejects --var entries without a valid name', () => {
+    expect(() => parseVarFlags(['region'])).to.throw('Invalid --var "region". Expected name=value.');
+    expect(() => parseVarFlags(['1st=x'])).to.throw('Invalid --var "1st=x"');
+  });
+
+  it('lets --var win over --vars-file, which wins over the plan variables', () => {
+    const varsFile = path.join(dir, 'vars.yaml');
+    fs.writeFileSync(varsFile, 'region: APAC\ncount: 3\n');
+
+    expect(
+      collectVariables({ region: 'EMEA', count: 1, owner: '005000000000001' }, varsFile, ['count=10'])
+    ).to.deep.equal({ region: 'APAC', count: 10, owner: '005000000000001' });
+  });
+
+  it('rejects vars files that are not objects of plain values', () => {
+    const list = path.join(dir, 'list.json');
+    const nested = path.join(dir, 'nested.json');
+    fs.writeFileSync(list, '[1, 2]');
+    fs.writeFileSync(nested, '{ "owner": { "id": 1 } }');
+
+    expect(() => collectVariables(undefined, list, [])).to.throw('must contain an object of names to values');
+    expect(() => collectVariables(undefined, nested, [])).to.throw(
+      'Variable "owner" in ' + nested + ' must be a string, number, boolean or null.'
+    );
+  });
+
+  it('keeps the type of whole-token values and interpolates the rest', () => {
+    const warnings: string[] = [];
+    const { entries, valid } = resolveVariables(
+      'Step',
+      [{ sobject: 'Opportunity', count: '${var.count}', fields: { Name: '${var.region} deal', Won: '${var.won}' } }],
+      parseVarFlags(['count=5', 'region=EMEA', 'won=false']),
+      (msg) => warnings.push(msg)
+    );
+
+    expect(valid).to.equal(true);
+    expect(warnings).to.deep.equal([]);
+    expect(entries).to.deep.equal([{ sobject: 'Opportunity', count: 5, fields: { Name: 'EMEA deal', Won: false } }]);
+  });
+
+  it('reports undefined variables with the entry and location', () => {
+    const warnings: string[] = [];
+    const { entries, valid } = resolveVariables(
+      'Object',
+      [{ sobject: 'Account' }, { sobject: 'Contact', query: 'SELECT Id FROM Contact WHERE Region__c = ${var.region}' }],
+      {},
+      (msg) => warnings.push(msg)
+    );
+
+    expect(valid).to.equal(false);
+    expect(warnings).to.deep.equal(['Object 2: Undefined variable "region" in "query".']);
+    // Unresolved tokens are left in place
+    expect(entries[1]).to.deep.include({ query: 'SELECT Id FROM Contact WHERE Region__c = ${var.region}' });
+  });
+});